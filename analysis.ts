@@ -1,10 +1,27 @@
 import { mkdir, writeFile, readFile } from "node:fs/promises";
-import type { AnalysisContext } from "./context.ts";
+import type { AnalysisContext, ModSourceInfo } from "./context.ts";
+import { analyzeAssetReferences, getAssetReferencesHtml } from "./assets.ts";
+import { analyzeFieldCooccurrence, getFieldCooccurrenceHtml } from "./cooccurrence.ts";
+import { analyzeSchemaCoverage, getSchemaCoverageHtml } from "./coverage.ts";
+import { getCrawlErrorsHtml, writeCrawlErrors } from "./crawl-errors.ts";
+import { getMultiFileStore, getSingleFileStore, isSingleFileType, loadDiscoveryRules } from "./discovery.ts";
+import { getDynamicKeyFieldPath, resolveDynamicKeyRules, type DynamicKeyRule } from "./dynamic-keys.ts";
+import { ARRAY_ITEMS_SEGMENT, joinFieldPath, splitFieldPath } from "./field-paths.ts";
+import { analyzeReferenceGraph, getReferenceGraphHtml } from "./graph.ts";
+import { analyzeFieldHistory, getFieldHistoryHtml } from "./history.ts";
+import { analyzeFieldHygiene, getFieldHygieneHtml } from "./hygiene.ts";
+import { escapeHtml, getModBadgeHtml, getSourceLocationHtml } from "./html.ts";
+import { escapeJsonPointerToken, getGitHubPermalink } from "./locations.ts";
+import { writeAnalysisSnapshot } from "./snapshot.ts";
+import { getValidationReportHtml, validateModConfigs } from "./validation.ts";
 
 export async function analyzeModConfigs(ctx: AnalysisContext) {
     console.log('Analyzing mod configs...');
     const analysisOutputDir = `${process.cwd()}/analysis`;
     await mkdir(analysisOutputDir, { recursive: true });
+    const perFieldSummaries: Record<string, Record<string, PerFieldSummary>> = {};
+    const dynamicKeyRules: Record<string, DynamicKeyRule[]> = {};
+    const fileFieldPaths: Record<string, string[][]> = {}; // Config Type -> field paths extracted from each file
 
     /**
      * Analyze a single config type where each mod has exactly one config object
@@ -12,29 +29,29 @@ export async function analyzeModConfigs(ctx: AnalysisContext) {
      */
     const analyzeSingleConfigType = async (
         configStore: Record<string, any>,
-        configTypeName: string
+        configTypeName: string,
+        fileName: string,
+        dynamicKeys: DynamicKeyRule[]
     ) => {
         console.log(`Analyzing ${configTypeName}...`);
         const fieldAnalysisMap = new Map<string, FieldAnalysis>();
+        fileFieldPaths[configTypeName] = [];
 
-        // Extract fields from each mod's config
-        for (const [modName, configData] of Object.entries(configStore)) {
+        // Extract fields from each mod's config, sorted so the output does not depend on the order mods were fetched in
+        for (const [modName, configData] of Object.entries(configStore).sort(([a], [b]) => a.localeCompare(b))) {
             if (!configData) continue;
 
-            const modFields = extractFieldsFromJson(configData, configTypeName);
+            const modFields = extractFieldsFromJson(configData, dynamicKeys);
+            fileFieldPaths[configTypeName].push(Array.from(modFields.keys()));
             for (const [fieldPath, analysis] of modFields) {
                 if (!fieldAnalysisMap.has(fieldPath)) {
-                    fieldAnalysisMap.set(fieldPath, {
-                        modValues: new Map(),
-                        distinctValues: new Set(),
-                        fieldType: analysis.fieldType
-                    });
+                    fieldAnalysisMap.set(fieldPath, createFieldAnalysis(analysis.fieldType));
                 }
-                mergeFieldAnalysis(fieldAnalysisMap.get(fieldPath)!, analysis, modName);
+                mergeFieldAnalysis(fieldAnalysisMap.get(fieldPath)!, analysis, modName, fileName, ctx.configLines[modName]?.[fileName]);
             }
         }
 
-        await writeAnalysisSummaries(fieldAnalysisMap, analysisOutputDir, configTypeName);
+        perFieldSummaries[configTypeName] = await writeAnalysisSummaries(fieldAnalysisMap, analysisOutputDir, configTypeName, ctx.modSources, dynamicKeys);
     };
 
     /**
@@ -43,56 +60,91 @@ export async function analyzeModConfigs(ctx: AnalysisContext) {
      */
     const analyzeMultiConfigType = async (
         configStore: Record<string, Record<string, any>>,
-        configTypeName: string
+        configTypeName: string,
+        dynamicKeys: DynamicKeyRule[]
     ) => {
         console.log(`Analyzing ${configTypeName}...`);
         const fieldAnalysisMap = new Map<string, FieldAnalysis>();
+        fileFieldPaths[configTypeName] = [];
 
-        // Extract fields from each mod's config files
-        for (const [modName, configFiles] of Object.entries(configStore)) {
+        // Extract fields from each mod's config files, sorted so the output does not depend on the order mods were fetched in
+        for (const [modName, configFiles] of Object.entries(configStore).sort(([a], [b]) => a.localeCompare(b))) {
             if (!configFiles) continue;
 
             for (const [filePath, configData] of Object.entries(configFiles)) {
                 if (!configData) continue;
-                const modFields = extractFieldsFromJson(configData, configTypeName);
+                const modFields = extractFieldsFromJson(configData, dynamicKeys);
+                fileFieldPaths[configTypeName].push(Array.from(modFields.keys()));
                 for (const [fieldPath, analysis] of modFields) {
                     if (!fieldAnalysisMap.has(fieldPath)) {
-                        fieldAnalysisMap.set(fieldPath, {
-                            modValues: new Map(),
-                            distinctValues: new Set(),
-                            fieldType: analysis.fieldType
-                        });
+                        fieldAnalysisMap.set(fieldPath, createFieldAnalysis(analysis.fieldType));
                     }
-                    mergeFieldAnalysis(fieldAnalysisMap.get(fieldPath)!, analysis, modName);
+                    mergeFieldAnalysis(fieldAnalysisMap.get(fieldPath)!, analysis, modName, filePath, ctx.configLines[modName]?.[filePath]);
                 }
             }
         }
 
-        await writeAnalysisSummaries(fieldAnalysisMap, analysisOutputDir, configTypeName);
+        perFieldSummaries[configTypeName] = await writeAnalysisSummaries(fieldAnalysisMap, analysisOutputDir, configTypeName, ctx.modSources, dynamicKeys);
     };
 
-    // Analyze each config type
-    await analyzeSingleConfigType(ctx.manifestConfigs, 'manifest');
-    await analyzeSingleConfigType(ctx.titleScreenConfigs, 'title-screen');
-    await analyzeSingleConfigType(ctx.addonConfigs, 'addon-manifest');
-    await analyzeSingleConfigType(ctx.settingConfigs, 'default-config');
-    await analyzeMultiConfigType(ctx.planetConfigs, 'planets');
-    await analyzeMultiConfigType(ctx.systemConfigs, 'systems');
+    // Analyze each config type declared in discovery.json, with the keys of map-like objects collapsed into placeholders
+    const discoveryRules = await loadDiscoveryRules();
+    for (const configType of discoveryRules.configTypes) {
+        if (isSingleFileType(configType)) {
+            const configStore = getSingleFileStore(ctx, configType);
+            dynamicKeyRules[configType.name] = await resolveDynamicKeyRules(configType, Object.values(configStore));
+            await analyzeSingleConfigType(configStore, configType.name, configType.file!, dynamicKeyRules[configType.name]);
+        } else {
+            const configStore = getMultiFileStore(ctx, configType);
+            dynamicKeyRules[configType.name] = await resolveDynamicKeyRules(configType, Object.values(configStore).flatMap(files => Object.values(files ?? {})));
+            await analyzeMultiConfigType(configStore, configType.name, dynamicKeyRules[configType.name]);
+        }
+    }
+
+    // Validate configs against the official schemas, recording schemas that cannot be used as crawl errors
+    const validationReport = await validateModConfigs(ctx, analysisOutputDir);
+    const crawlErrors = await writeCrawlErrors(ctx, analysisOutputDir);
+    const unknownFields = await analyzeFieldHygiene(perFieldSummaries, analysisOutputDir);
+    const schemaCoverage = await analyzeSchemaCoverage(perFieldSummaries, analysisOutputDir);
+    const fieldCooccurrence = await analyzeFieldCooccurrence(fileFieldPaths, analysisOutputDir);
+    const fieldHistory = await analyzeFieldHistory(ctx, analysisOutputDir, dynamicKeyRules);
+    const assetReport = await analyzeAssetReferences(ctx, analysisOutputDir, dynamicKeyRules);
+    const referenceGraph = await analyzeReferenceGraph(ctx, analysisOutputDir);
+
+    const configTypes = discoveryRules.configTypes.map(configType => configType.name);
+
+    // Keep a timestamped record of the fields and their values so runs can be compared later
+    await writeAnalysisSnapshot(perFieldSummaries);
 
     // Generate HTML report
-    await generateHtmlReport(analysisOutputDir, ['manifest', 'title-screen', 'addon-manifest', 'default-config', 'planets', 'systems']);
+    await generateHtmlReport(analysisOutputDir, configTypes, [
+        getCrawlErrorsHtml(crawlErrors),
+        getValidationReportHtml(validationReport),
+        getFieldHygieneHtml(unknownFields),
+        getSchemaCoverageHtml(schemaCoverage),
+        getFieldCooccurrenceHtml(fieldCooccurrence),
+        getAssetReferencesHtml(assetReport),
+        getReferenceGraphHtml(referenceGraph),
+        ...(fieldHistory ? [getFieldHistoryHtml(fieldHistory, ctx)] : []),
+    ]);
 
     console.log('Analysis complete!');
 }
 
 /**
  * Recursively extract fields and their values from a JSON object
- * Returns a map of field paths to FieldAnalysis containing value information
+ * Returns a map of field paths to FieldAnalysis containing value information,
+ * with each occurrence tagged by its JSON pointer within the file.
+ * Arrays are fields of their own that record their length, and their items are extracted below a '[]' segment,
+ * e.g. Props.details[].position.x; elementPointer is the pointer of the array element being extracted, if any.
+ * The keys of objects matched by a dynamic key rule are collapsed into the rule's placeholder, e.g. settings.{settingName}.
  */
-function extractFieldsFromJson(
+export function extractFieldsFromJson(
     obj: any,
-    configTypeName: string,
-    fieldPath: string = ''
+    dynamicKeys: DynamicKeyRule[],
+    fieldPath: string = '',
+    pointer: string = '',
+    elementPointer?: string
 ): Map<string, FieldAnalysis> {
     const fieldsMap = new Map<string, FieldAnalysis>()
 
@@ -100,106 +152,49 @@ function extractFieldsFromJson(
         return fieldsMap
     }
 
-    const objType = Array.isArray(obj) ? 'array' : typeof obj
-
     // Handle primitives at current level
-    if (objType !== 'object' && objType !== 'array') {
-        const pathKey = fieldPath || '[root]'
-        const valueStr = String(obj)
-        const analysis = fieldsMap.get(pathKey) || {
-            modValues: new Map(),
-            distinctValues: new Set(),
-            fieldType: 'primitive'
-        }
-        analysis.distinctValues.add(valueStr)
-        fieldsMap.set(pathKey, analysis)
+    if (typeof obj !== 'object') {
+        const analysis = createFieldAnalysis('primitive')
+        addFieldValue(analysis, obj, pointer, elementPointer)
+        fieldsMap.set(fieldPath || '[root]', analysis)
         return fieldsMap
     }
 
-    // Handle arrays
+    // Handle arrays: items of any kind, including nested arrays such as curve keyframes, are extracted one level down
     if (Array.isArray(obj)) {
-        // Check if array contains objects or primitives
-        const hasObjects = obj.some(item => item !== null && typeof item === 'object')
-        const hasPrimitives = obj.some(item => item === null || typeof item !== 'object')
-
-        if (hasObjects && obj.length > 0) {
-            // Array of objects: merge all fields from all objects
-            const mergedFields = new Map<string, FieldAnalysis>()
-            for (const item of obj) {
-                if (item !== null && typeof item === 'object' && !Array.isArray(item)) {
-                    const itemFields = extractFieldsFromJson(item, configTypeName, '')
-                    for (const [key, analysis] of itemFields) {
-                        if (!mergedFields.has(key)) {
-                            mergedFields.set(key, {
-                                modValues: new Map(),
-                                distinctValues: new Set(),
-                                fieldType: analysis.fieldType
-                            })
-                        }
-                        const merged = mergedFields.get(key)!
-                        for (const value of analysis.distinctValues) {
-                            merged.distinctValues.add(value)
-                        }
-                    }
-                }
-            }
-            // Add merged fields with array prefix
-            for (const [key, analysis] of mergedFields) {
-                const fullKey = fieldPath ? `${fieldPath}.${key}` : key
-                fieldsMap.set(fullKey, analysis)
-            }
+        const analysis = createFieldAnalysis('array')
+        addArrayLength(analysis, obj.length, elementPointer)
+        const curve = getCompoundValue(obj)
+        if (curve) {
+            addCompoundValue(analysis, curve, elementPointer)
         }
+        fieldsMap.set(fieldPath || '[root]', analysis)
 
-        if (hasPrimitives) {
-            // Array of primitives: treat as set of values
-            const pathKey = fieldPath || '[root]'
-            const analysis: FieldAnalysis = {
-                modValues: new Map(),
-                distinctValues: new Set(),
-                fieldType: 'array'
-            }
-            for (const item of obj) {
-                if (item !== null && item !== undefined) {
-                    analysis.distinctValues.add(String(item))
-                }
-            }
-            if (analysis.distinctValues.size > 0) {
-                fieldsMap.set(pathKey, analysis)
-            }
+        const itemPath = `${fieldPath}${ARRAY_ITEMS_SEGMENT}`
+        for (const [index, item] of obj.entries()) {
+            const itemPointer = `${pointer}/${index}`
+            mergeExtractedFields(fieldsMap, extractFieldsFromJson(item, dynamicKeys, itemPath, itemPointer, itemPointer))
         }
-
         return fieldsMap
     }
 
-    // Handle objects
+    // Handle objects; vectors and colors are also recorded as a whole, while their components stay fields of their own
+    const compound = fieldPath ? getCompoundValue(obj) : null
+    if (compound) {
+        const analysis = createFieldAnalysis('object')
+        addCompoundValue(analysis, compound, elementPointer)
+        fieldsMap.set(fieldPath, analysis)
+    }
     for (const [key, value] of Object.entries(obj)) {
-        let newPath = fieldPath ? `${fieldPath}.${key}` : key
-
-        // HACK: Treat settings in default-config.json as the same object/field since the keys are dynamic and we want to aggregate them
-        if (fieldPath === 'settings' && configTypeName === 'default-config') {
-            newPath = `${fieldPath}.{settingName}`
-        }
+        const newPath = getDynamicKeyFieldPath(dynamicKeys, fieldPath, key)
+        const newPointer = `${pointer}/${escapeJsonPointerToken(key)}`
 
         if (value === null || value === undefined) {
-            const analysis: FieldAnalysis = {
-                modValues: new Map(),
-                distinctValues: new Set(['null']),
-                fieldType: 'primitive'
-            }
-            fieldsMap.set(newPath, analysis)
-        } else if (Array.isArray(value) || (typeof value === 'object')) {
-            const nestedFields = extractFieldsFromJson(value, configTypeName, newPath)
-            for (const [nestedKey, analysis] of nestedFields) {
-                fieldsMap.set(nestedKey, analysis)
-            }
+            const analysis = createFieldAnalysis('primitive')
+            addFieldValue(analysis, null, newPointer, elementPointer)
+            mergeExtractedFields(fieldsMap, new Map([[newPath, analysis]]))
         } else {
-            // Primitive value
-            const analysis: FieldAnalysis = {
-                modValues: new Map(),
-                distinctValues: new Set([String(value)]),
-                fieldType: 'primitive'
-            }
-            fieldsMap.set(newPath, analysis)
+            mergeExtractedFields(fieldsMap, extractFieldsFromJson(value, dynamicKeys, newPath, newPointer, elementPointer))
         }
     }
 
@@ -207,30 +202,338 @@ function extractFieldsFromJson(
 }
 
 /**
- * Merge field analyses from a mod into a combined analysis, tracking which mod contributed which values
+ * Add fields extracted from one part of a file to those extracted from the rest of it.
+ * Fields can be extracted more than once per file, e.g. from every item of an array or every key of a dynamic-key object.
+ */
+function mergeExtractedFields(target: Map<string, FieldAnalysis>, source: Map<string, FieldAnalysis>): void {
+    for (const [key, analysis] of source) {
+        const existing = target.get(key)
+        if (!existing) {
+            target.set(key, analysis)
+            continue
+        }
+        for (const value of analysis.distinctValues) {
+            existing.distinctValues.add(value)
+        }
+        existing.occurrences.push(...analysis.occurrences)
+        existing.numericValues.push(...analysis.numericValues)
+        existing.arrayLengths.push(...analysis.arrayLengths)
+        existing.compoundValues.push(...analysis.compoundValues)
+        for (const element of analysis.elements) {
+            existing.elements.add(element)
+        }
+        addValueTypeCounts(existing.valueTypeCounts, analysis.valueTypeCounts)
+    }
+}
+
+/**
+ * Create an empty field analysis for a field of the given type
  */
+function createFieldAnalysis(fieldType: FieldAnalysis['fieldType']): FieldAnalysis {
+    return {
+        modValues: new Map(),
+        distinctValues: new Set(),
+        occurrences: [],
+        numericValues: [],
+        modNumericValues: new Map(),
+        valueTypeCounts: {},
+        modValueTypeCounts: new Map(),
+        arrayLengths: [],
+        modArrayLengths: new Map(),
+        compoundValues: [],
+        modCompoundValues: new Map(),
+        elements: new Set(),
+        elementCount: 0,
+        modElementCounts: new Map(),
+        occurrenceCount: 0,
+        modOccurrenceCounts: new Map(),
+        modFileCounts: new Map(),
+        fieldType
+    }
+}
+
+/**
+ * Record a single observed value, keeping its original JSON type and where in the file it was found
+ */
+function addFieldValue(analysis: FieldAnalysis, value: JsonPrimitive, pointer: string, elementPointer?: string): void {
+    analysis.distinctValues.add(value)
+    analysis.occurrences.push({ value, pointer })
+    const valueType = getJsonValueType(value)
+    analysis.valueTypeCounts[valueType] = (analysis.valueTypeCounts[valueType] ?? 0) + 1
+    if (typeof value === 'number' && Number.isFinite(value)) {
+        analysis.numericValues.push(value)
+    }
+    if (elementPointer !== undefined) {
+        analysis.elements.add(elementPointer)
+    }
+}
+
+/**
+ * Record a single observed array by its length, and the array element it is nested in if any
+ */
+function addArrayLength(analysis: FieldAnalysis, length: number, elementPointer?: string): void {
+    analysis.arrayLengths.push(length)
+    if (elementPointer !== undefined) {
+        analysis.elements.add(elementPointer)
+    }
+}
+
+/**
+ * Record a single observed vector, color or curve, and the array element it is nested in if any
+ */
+function addCompoundValue(analysis: FieldAnalysis, value: CompoundValue, elementPointer?: string): void {
+    analysis.compoundValues.push(value)
+    if (elementPointer !== undefined) {
+        analysis.elements.add(elementPointer)
+    }
+}
+
+/**
+ * Recognize the compound values New Horizons reads from configs: {x,y,z} vectors (or {x,y}), {r,g,b,a} colors
+ * (alpha optional) and curves, which are arrays of {time,value} keyframes. Returns null for anything else.
+ */
+function getCompoundValue(obj: any): CompoundValue | null {
+    if (Array.isArray(obj)) {
+        const isCurve = obj.length > 0 && obj.every(item => hasNumericKeys(item, CURVE_KEYFRAME_KEYS, CURVE_KEYFRAME_KEYS))
+        return isCurve
+            ? { type: 'curve', keyframes: obj.map(item => ({ time: item.time, value: item.value })).sort((a, b) => a.time - b.time) }
+            : null
+    }
+    if (hasNumericKeys(obj, ['r', 'g', 'b'], COLOR_COMPONENTS)) {
+        return { type: 'color', color: { r: obj.r, g: obj.g, b: obj.b, ...(obj.a !== undefined ? { a: obj.a } : {}) } }
+    }
+    if (hasNumericKeys(obj, ['x', 'y'], VECTOR_COMPONENTS)) {
+        return { type: 'vector', components: { ...obj } }
+    }
+    return null
+}
+
+/**
+ * Whether a value is an object with all of the required keys and no keys outside the allowed ones, all set to numbers
+ */
+function hasNumericKeys(obj: any, requiredKeys: string[], allowedKeys: string[]): boolean {
+    if (typeof obj !== 'object' || obj === null || Array.isArray(obj)) {
+        return false
+    }
+    const keys = Object.keys(obj)
+    return requiredKeys.every(key => keys.includes(key))
+        && keys.every(key => allowedKeys.includes(key) && typeof obj[key] === 'number' && Number.isFinite(obj[key]))
+}
 
+/**
+ * Merge field analyses from a mod's config file into a combined analysis,
+ * tracking which mod and file contributed which values.
+ * Line numbers are attached when the original file text was available.
+ */
 function mergeFieldAnalysis(
     combinedAnalysis: FieldAnalysis,
     modAnalysis: FieldAnalysis,
-    modName: string
+    modName: string,
+    filePath: string,
+    lines?: Record<string, number>
 ): void {
     if (!combinedAnalysis.modValues.has(modName)) {
-        combinedAnalysis.modValues.set(modName, new Set())
+        combinedAnalysis.modValues.set(modName, new Map())
+    }
+    if (!combinedAnalysis.modNumericValues.has(modName)) {
+        combinedAnalysis.modNumericValues.set(modName, [])
     }
 
     const modValues = combinedAnalysis.modValues.get(modName)!
-    for (const value of modAnalysis.distinctValues) {
-        modValues.add(value)
+    for (const { value, pointer } of modAnalysis.occurrences) {
+        if (!modValues.has(value)) {
+            modValues.set(value, [])
+        }
+        const line = lines?.[pointer]
+        modValues.get(value)!.push({ file: filePath, pointer, ...(line ? { line } : {}) })
         combinedAnalysis.distinctValues.add(value)
     }
+
+    combinedAnalysis.modNumericValues.get(modName)!.push(...modAnalysis.numericValues)
+    combinedAnalysis.numericValues.push(...modAnalysis.numericValues)
+
+    if (!combinedAnalysis.modArrayLengths.has(modName)) {
+        combinedAnalysis.modArrayLengths.set(modName, [])
+    }
+    combinedAnalysis.modArrayLengths.get(modName)!.push(...modAnalysis.arrayLengths)
+    combinedAnalysis.arrayLengths.push(...modAnalysis.arrayLengths)
+
+    if (!combinedAnalysis.modCompoundValues.has(modName)) {
+        combinedAnalysis.modCompoundValues.set(modName, [])
+    }
+    combinedAnalysis.modCompoundValues.get(modName)!.push(...modAnalysis.compoundValues)
+    combinedAnalysis.compoundValues.push(...modAnalysis.compoundValues)
+
+    // Element pointers are only unique within a file, so they are counted per file
+    combinedAnalysis.modElementCounts.set(modName, (combinedAnalysis.modElementCounts.get(modName) ?? 0) + modAnalysis.elements.size)
+    combinedAnalysis.elementCount += modAnalysis.elements.size
+
+    // Every value, array, vector and color observed at the path counts as one use of the field; curves are arrays already.
+    // The components of a vector or color count as uses of their own fields, but not towards the compound in the report.
+    const occurrenceCount = modAnalysis.occurrences.length + modAnalysis.arrayLengths.length
+        + modAnalysis.compoundValues.filter(value => value.type !== 'curve').length
+    combinedAnalysis.occurrenceCount += occurrenceCount
+    combinedAnalysis.modOccurrenceCounts.set(modName, (combinedAnalysis.modOccurrenceCounts.get(modName) ?? 0) + occurrenceCount)
+    if (!combinedAnalysis.modFileCounts.has(modName)) {
+        combinedAnalysis.modFileCounts.set(modName, new Map())
+    }
+    const fileCounts = combinedAnalysis.modFileCounts.get(modName)!
+    fileCounts.set(filePath, (fileCounts.get(filePath) ?? 0) + occurrenceCount)
+
+    if (!combinedAnalysis.modValueTypeCounts.has(modName)) {
+        combinedAnalysis.modValueTypeCounts.set(modName, {})
+    }
+    addValueTypeCounts(combinedAnalysis.modValueTypeCounts.get(modName)!, modAnalysis.valueTypeCounts)
+    addValueTypeCounts(combinedAnalysis.valueTypeCounts, modAnalysis.valueTypeCounts)
+}
+
+/**
+ * Classify a JSON primitive by its real type, separating whole numbers from other numbers
+ */
+function getJsonValueType(value: JsonPrimitive): JsonValueType {
+    if (value === null) {
+        return 'null'
+    }
+    if (typeof value === 'number') {
+        return Number.isInteger(value) ? 'integer' : 'number'
+    }
+    return typeof value as 'string' | 'boolean'
+}
+
+/**
+ * Add the type counts from one tally into another
+ */
+function addValueTypeCounts(target: ValueTypeCounts, source: ValueTypeCounts): void {
+    for (const [valueType, count] of Object.entries(source) as [JsonValueType, number][]) {
+        target[valueType] = (target[valueType] ?? 0) + count
+    }
+}
+
+/**
+ * Compute range statistics and a histogram for a list of numeric observations
+ */
+export function computeNumericStats(values: number[]): NumericStats | null {
+    if (values.length === 0) {
+        return null
+    }
+
+    const sorted = values.slice().sort((a, b) => a - b)
+    const min = sorted[0]
+    const max = sorted[sorted.length - 1]
+    const mean = sorted.reduce((sum, v) => sum + v, 0) / sorted.length
+    const mid = Math.floor(sorted.length / 2)
+    const median = sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+
+    // Equal-width buckets across [min, max]; a constant field collapses into a single bucket
+    const bucketCount = min === max ? 1 : Math.min(HISTOGRAM_BUCKET_COUNT, new Set(sorted).size)
+    const bucketWidth = (max - min) / bucketCount
+    const histogram: HistogramBucket[] = []
+    for (let i = 0; i < bucketCount; i++) {
+        histogram.push({
+            start: min + bucketWidth * i,
+            end: i === bucketCount - 1 ? max : min + bucketWidth * (i + 1),
+            count: 0
+        })
+    }
+    for (const value of sorted) {
+        const index = bucketWidth === 0 ? 0 : Math.min(bucketCount - 1, Math.floor((value - min) / bucketWidth))
+        histogram[index].count++
+    }
+
+    return { count: sorted.length, min, max, mean, median, histogram }
+}
+
+/**
+ * Compute length statistics for the arrays observed at a field path
+ */
+function computeArrayStats(lengths: number[]): ArrayStats | null {
+    const stats = computeNumericStats(lengths)
+    if (!stats) {
+        return null
+    }
+    return { lengths: stats, elementCount: lengths.reduce((sum, length) => sum + length, 0) }
+}
+
+/**
+ * Compute statistics for the vectors, colors and curves observed at a field path
+ */
+function computeCompoundStats(values: CompoundValue[]): CompoundStats | null {
+    const vectors = values.flatMap(value => value.type === 'vector' ? [value.components] : [])
+    const colors = values.flatMap(value => value.type === 'color' ? [value.color] : [])
+    const curves = values.flatMap(value => value.type === 'curve' ? [value.keyframes] : [])
+    const stats: CompoundStats = {}
+
+    const magnitude = computeNumericStats(vectors.map(components => Math.hypot(...Object.values(components))))
+    if (magnitude) {
+        const components: Record<string, { min: number, max: number }> = {}
+        for (const component of VECTOR_COMPONENTS) {
+            const componentValues = vectors.flatMap(vector => vector[component] !== undefined ? [vector[component]] : [])
+            if (componentValues.length > 0) {
+                components[component] = { min: Math.min(...componentValues), max: Math.max(...componentValues) }
+            }
+        }
+        stats.vector = { count: vectors.length, magnitude, components }
+    }
+
+    if (colors.length > 0) {
+        const distinctColors = new Map<string, RgbaColor & { count: number }>()
+        for (const color of colors) {
+            const key = [color.r, color.g, color.b, color.a].join()
+            const existing = distinctColors.get(key)
+            if (existing) {
+                existing.count++
+            } else {
+                distinctColors.set(key, { ...color, count: 1 })
+            }
+        }
+        stats.color = {
+            count: colors.length,
+            colors: Array.from(distinctColors.values()).sort((a, b) => b.count - a.count || a.r - b.r || a.g - b.g || a.b - b.b)
+        }
+    }
+
+    const keyframes = computeNumericStats(curves.map(curve => curve.length))
+    if (keyframes) {
+        stats.curve = {
+            count: curves.length,
+            keyframes,
+            time: computeNumericStats(curves.flatMap(curve => curve.map(keyframe => keyframe.time)))!,
+            value: computeNumericStats(curves.flatMap(curve => curve.map(keyframe => keyframe.value)))!,
+            samples: curves.slice(0, MAX_CURVE_SAMPLES)
+        }
+    }
+
+    return Object.keys(stats).length > 0 ? stats : null
+}
+
+/**
+ * The kind of compound value a field holds, by its most common kind if it holds more than one
+ */
+function getCompoundValueType(stats: CompoundStats): CompoundValueType {
+    return (['vector', 'color', 'curve'] as const).reduce((best, type) => (stats[type]?.count ?? 0) > (stats[best]?.count ?? 0) ? type : best)
+}
+
+/**
+ * Sort comparator for JSON primitives: null, then booleans, then numbers, then strings
+ */
+function compareJsonValues(a: JsonPrimitive, b: JsonPrimitive): number {
+    const rank = (v: JsonPrimitive) => v === null ? 0 : typeof v === 'boolean' ? 1 : typeof v === 'number' ? 2 : 3
+    const rankDiff = rank(a) - rank(b)
+    if (rankDiff !== 0) {
+        return rankDiff
+    }
+    if (typeof a === 'number' && typeof b === 'number') {
+        return a - b
+    }
+    return String(a).localeCompare(String(b))
 }
 
 /**
  * Build per-mod summaries from field analyses
  */
 function buildPerModSummaries(
-    fieldAnalysisMap: Map<string, FieldAnalysis>
+    fieldAnalysisMap: Map<string, FieldAnalysis>,
+    modSources: Record<string, ModSourceInfo>
 ): Record<string, PerModFieldInfo[]> {
     const perModSummaries: Record<string, PerModFieldInfo[]> = {}
 
@@ -239,10 +542,23 @@ function buildPerModSummaries(
             if (!perModSummaries[modName]) {
                 perModSummaries[modName] = []
             }
+            const numericStats = computeNumericStats(analysis.modNumericValues.get(modName) ?? [])
+            const arrayStats = computeArrayStats(analysis.modArrayLengths.get(modName) ?? [])
+            const compoundStats = computeCompoundStats(analysis.modCompoundValues.get(modName) ?? [])
+            const elementCount = analysis.modElementCounts.get(modName) ?? 0
             perModSummaries[modName].push({
                 fieldPath,
                 fieldType: analysis.fieldType,
-                values: Array.from(values).sort()
+                values: Array.from(values.keys()).sort(compareJsonValues),
+                valueCounts: buildValueCounts(values),
+                occurrences: buildValueOccurrences(values, modSources[modName]),
+                occurrenceCount: analysis.modOccurrenceCounts.get(modName) ?? 0,
+                fileCounts: Object.fromEntries(analysis.modFileCounts.get(modName) ?? []),
+                valueTypes: analysis.modValueTypeCounts.get(modName) ?? {},
+                ...(numericStats ? { numericStats } : {}),
+                ...(arrayStats ? { arrayStats } : {}),
+                ...(compoundStats ? { compoundStats } : {}),
+                ...(elementCount > 0 ? { elementCount } : {})
             })
         }
     }
@@ -255,28 +571,91 @@ function buildPerModSummaries(
     return perModSummaries
 }
 
+/**
+ * Count how often each value occurs in a value -> sources map, most used values first
+ */
+function buildValueCounts(values: Map<JsonPrimitive, ValueSource[]>): TypedValue[] {
+    return Array.from(values)
+        .map(([value, sources]) => ({ value, type: getJsonValueType(value), count: sources.length }))
+        .sort(compareValueUsage)
+}
+
+/**
+ * Sort comparator for counted values: most used first, then by value
+ */
+function compareValueUsage(a: TypedValue, b: TypedValue): number {
+    return b.count - a.count || compareJsonValues(a.value, b.value)
+}
+
+/**
+ * Flatten a value -> sources map into a list of occurrences, sorted by file and pointer.
+ * Occurrences get a GitHub permalink when the mod's source metadata is known.
+ */
+function buildValueOccurrences(values: Map<JsonPrimitive, ValueSource[]>, modSource: ModSourceInfo | undefined): ValueOccurrence[] {
+    const occurrences: ValueOccurrence[] = []
+    for (const [value, sources] of values) {
+        for (const source of sources) {
+            const url = modSource ? getGitHubPermalink(modSource, source.file, source.line) : null
+            occurrences.push({ value, ...source, ...(url ? { url } : {}) })
+        }
+    }
+    return occurrences.sort((a, b) => a.file.localeCompare(b.file) || a.pointer.localeCompare(b.pointer))
+}
+
 /**
  * Build per-field summaries from field analyses
  */
 function buildPerFieldSummaries(
-    fieldAnalysisMap: Map<string, FieldAnalysis>
+    fieldAnalysisMap: Map<string, FieldAnalysis>,
+    modSources: Record<string, ModSourceInfo>
 ): Record<string, PerFieldSummary> {
     const perFieldSummaries: Record<string, PerFieldSummary> = {}
 
     for (const [fieldPath, analysis] of fieldAnalysisMap) {
         const mods: PerFieldModInfo[] = []
         for (const [modName, values] of analysis.modValues) {
+            const modNumericStats = computeNumericStats(analysis.modNumericValues.get(modName) ?? [])
+            const modArrayStats = computeArrayStats(analysis.modArrayLengths.get(modName) ?? [])
+            const modCompoundStats = computeCompoundStats(analysis.modCompoundValues.get(modName) ?? [])
+            const modElementCount = analysis.modElementCounts.get(modName) ?? 0
             mods.push({
                 modName,
-                values: Array.from(values).sort()
+                values: Array.from(values.keys()).sort(compareJsonValues),
+                valueCounts: buildValueCounts(values),
+                occurrences: buildValueOccurrences(values, modSources[modName]),
+                occurrenceCount: analysis.modOccurrenceCounts.get(modName) ?? 0,
+                fileCounts: Object.fromEntries(analysis.modFileCounts.get(modName) ?? []),
+                valueTypes: analysis.modValueTypeCounts.get(modName) ?? {},
+                ...(modNumericStats ? { numericStats: modNumericStats } : {}),
+                ...(modArrayStats ? { arrayStats: modArrayStats } : {}),
+                ...(modCompoundStats ? { compoundStats: modCompoundStats } : {}),
+                ...(modElementCount > 0 ? { elementCount: modElementCount } : {})
             })
         }
         mods.sort((a, b) => a.modName.localeCompare(b.modName))
 
+        const valueCounts = new Map<JsonPrimitive, number>()
+        for (const values of analysis.modValues.values()) {
+            for (const [value, sources] of values) {
+                valueCounts.set(value, (valueCounts.get(value) ?? 0) + sources.length)
+            }
+        }
+        const numericStats = computeNumericStats(analysis.numericValues)
+        const arrayStats = computeArrayStats(analysis.arrayLengths)
+        const compoundStats = computeCompoundStats(analysis.compoundValues)
         perFieldSummaries[fieldPath] = {
             fieldType: analysis.fieldType,
             mods,
-            distinctValues: Array.from(analysis.distinctValues).sort()
+            distinctValues: Array.from(analysis.distinctValues)
+                .sort(compareJsonValues)
+                .map(value => ({ value, type: getJsonValueType(value), count: valueCounts.get(value) ?? 0 })),
+            occurrenceCount: analysis.occurrenceCount,
+            fileCount: Array.from(analysis.modFileCounts.values()).reduce((sum, fileCounts) => sum + fileCounts.size, 0),
+            valueTypes: analysis.valueTypeCounts,
+            ...(numericStats ? { numericStats } : {}),
+            ...(arrayStats ? { arrayStats } : {}),
+            ...(compoundStats ? { compoundStats } : {}),
+            ...(analysis.elementCount > 0 ? { elementCount: analysis.elementCount } : {})
         }
     }
 
@@ -284,15 +663,17 @@ function buildPerFieldSummaries(
 }
 
 /**
- * Write analysis summaries to output files
+ * Write analysis summaries to output files, returning the per-field summary for further analysis passes
  */
 async function writeAnalysisSummaries(
     fieldAnalysisMap: Map<string, FieldAnalysis>,
     analysisOutputDir: string,
-    configTypeName: string
-): Promise<void> {
-    const perModSummary = buildPerModSummaries(fieldAnalysisMap)
-    const perFieldSummary = buildPerFieldSummaries(fieldAnalysisMap)
+    configTypeName: string,
+    modSources: Record<string, ModSourceInfo>,
+    dynamicKeys: DynamicKeyRule[]
+): Promise<Record<string, PerFieldSummary>> {
+    const perModSummary = buildPerModSummaries(fieldAnalysisMap, modSources)
+    const perFieldSummary = buildPerFieldSummaries(fieldAnalysisMap, modSources)
 
     const typeOutputDir = `${analysisOutputDir}/${configTypeName}`
     await mkdir(typeOutputDir, { recursive: true })
@@ -307,30 +688,194 @@ async function writeAnalysisSummaries(
         JSON.stringify(perFieldSummary, null, 2)
     )
 
-    console.log(`  Analyzed ${Object.keys(perModSummary).length} mods with ${fieldAnalysisMap.size} unique fields`)
+    await writeFile(
+        `${typeOutputDir}/dynamic-keys.json`,
+        JSON.stringify(dynamicKeys, null, 2)
+    )
+
+    const detectedCount = dynamicKeys.filter(rule => rule.detected).length
+    console.log(`  Analyzed ${Object.keys(perModSummary).length} mods with ${fieldAnalysisMap.size} unique fields${detectedCount > 0 ? `, collapsing the keys of ${detectedCount} detected maps` : ''}`)
+    return perFieldSummary
+}
+
+/** Maximum number of file locations listed per mod in a value tooltip */
+const MAX_TOOLTIP_SOURCES = 10
+
+/** Number of equal-width buckets used for numeric field histograms */
+const HISTOGRAM_BUCKET_COUNT = 10
+
+/** Components of New Horizons' MVector2 and MVector3 */
+const VECTOR_COMPONENTS = ['x', 'y', 'z']
+
+/** Components of New Horizons' MColor, each 0-255 */
+const COLOR_COMPONENTS = ['r', 'g', 'b', 'a']
+
+/** Keys of a keyframe in New Horizons' curves, e.g. Water.curve or Atmosphere.fogDensityCurve */
+const CURVE_KEYFRAME_KEYS = ['time', 'value']
+
+/** Number of curves kept per field for drawing in the HTML report; the statistics cover all of them */
+const MAX_CURVE_SAMPLES = 20
+
+/** Maximum number of distinct colors shown as swatches per field in the HTML report */
+const MAX_COLOR_SWATCHES = 200
+
+export type JsonPrimitive = string | number | boolean | null
+
+/** The real JSON type of an observed value; 'integer' is a whole number, 'number' is any other number */
+export type JsonValueType = 'string' | 'number' | 'integer' | 'boolean' | 'null'
+
+export type ValueTypeCounts = Partial<Record<JsonValueType, number>> // value type -> number of occurrences
+
+export interface ValueSource {
+    file: string // config file path relative to the mod, e.g. planets/Moons/Foo.json
+    pointer: string // JSON pointer of the value within the file, e.g. /Props/details/0/path
+    line?: number // line in the original file, when the cached copy kept the original text
+    url?: string // GitHub permalink to the line, pinned to the commit the data was fetched from
+}
+
+export interface ValueOccurrence extends ValueSource {
+    value: JsonPrimitive
+}
+
+export interface RgbaColor {
+    r: number
+    g: number
+    b: number
+    a?: number // opaque when not set
+}
+
+export interface CurveKeyframe {
+    time: number
+    value: number
 }
 
+type CompoundValue =
+    | { type: 'vector', components: Record<string, number> }
+    | { type: 'color', color: RgbaColor }
+    | { type: 'curve', keyframes: CurveKeyframe[] } // sorted by time
+
 interface FieldAnalysis {
-    modValues: Map<string, Set<string>> // modName -> set of string representations of values
-    distinctValues: Set<string>
+    modValues: Map<string, Map<JsonPrimitive, ValueSource[]>> // modName -> distinct value, in its original JSON type -> where it occurs
+    distinctValues: Set<JsonPrimitive>
+    occurrences: { value: JsonPrimitive, pointer: string }[] // every value in a single extracted file, before merging
+
+    numericValues: number[] // every numeric observation, including repeats, for range statistics
+    modNumericValues: Map<string, number[]> // modName -> numeric observations from that mod
+    valueTypeCounts: ValueTypeCounts
+    modValueTypeCounts: Map<string, ValueTypeCounts> // modName -> value type occurrences from that mod
+
+    arrayLengths: number[] // length of every array observed at this path, for array fields
+    modArrayLengths: Map<string, number[]> // modName -> array lengths from that mod
+    compoundValues: CompoundValue[] // every vector, color or curve observed at this path
+    modCompoundValues: Map<string, CompoundValue[]> // modName -> vectors, colors and curves from that mod
+    elements: Set<string> // pointers of the array elements the field occurs in, within a single extracted file
+    elementCount: number // number of array elements the field occurs in, across all files
+    modElementCounts: Map<string, number> // modName -> array elements from that mod the field occurs in
+    occurrenceCount: number // number of values and arrays observed at this path, across all files
+    modOccurrenceCounts: Map<string, number> // modName -> values and arrays from that mod
+    modFileCounts: Map<string, Map<string, number>> // modName -> config file -> values and arrays from that file
     fieldType: 'primitive' | 'object' | 'array'
 }
 
-interface PerModFieldInfo {
+export interface HistogramBucket {
+    start: number
+    end: number
+    count: number
+}
+
+export interface NumericStats {
+    count: number
+    min: number
+    max: number
+    mean: number
+    median: number
+    histogram: HistogramBucket[]
+}
+
+export interface ArrayStats {
+    lengths: NumericStats // statistics of the array lengths; lengths.count is the number of arrays
+    elementCount: number // total number of elements across the arrays
+}
+
+export interface VectorStats {
+    count: number
+    magnitude: NumericStats // length of the vectors, with unset components as 0
+    components: Record<string, { min: number, max: number }> // component -> range of the values it is set to
+}
+
+export interface ColorStats {
+    count: number
+    colors: (RgbaColor & { count: number })[] // distinct colors, most used first
+}
+
+export interface CurveStats {
+    count: number
+    keyframes: NumericStats // number of keyframes per curve
+    time: NumericStats // keyframe times across all curves
+    value: NumericStats // keyframe values across all curves
+    samples: CurveKeyframe[][] // the first few curves, for drawing
+}
+
+export type CompoundValueType = 'vector' | 'color' | 'curve'
+
+/** Statistics of the compound values recorded at a field, by kind; a field usually only holds one kind */
+export interface CompoundStats {
+    vector?: VectorStats
+    color?: ColorStats
+    curve?: CurveStats
+}
+
+export interface PerModFieldInfo {
     fieldPath: string
     fieldType: 'primitive' | 'object' | 'array'
-    values: string[]
+    values: JsonPrimitive[]
+    valueCounts: TypedValue[] // the values with how often the mod uses each, most used first
+    occurrences: ValueOccurrence[]
+    occurrenceCount: number // number of values and arrays the mod has at this path
+    fileCounts: Record<string, number> // config file -> number of values and arrays at this path in it
+    valueTypes: ValueTypeCounts
+    numericStats?: NumericStats
+    arrayStats?: ArrayStats
+    compoundStats?: CompoundStats
+    elementCount?: number // for fields inside arrays: the number of elements of the nearest enclosing array that set it
 }
 
-interface PerFieldModInfo {
+export interface PerFieldModInfo {
     modName: string
-    values: string[]
+    values: JsonPrimitive[]
+    valueCounts: TypedValue[]
+    occurrences: ValueOccurrence[]
+    occurrenceCount: number
+    fileCounts: Record<string, number>
+    valueTypes: ValueTypeCounts
+    numericStats?: NumericStats
+    arrayStats?: ArrayStats
+    compoundStats?: CompoundStats
+    elementCount?: number
+}
+
+export interface TypedValue {
+    value: JsonPrimitive
+    type: JsonValueType
+    count: number // number of times the value occurs
 }
 
-interface PerFieldSummary {
+export interface PerFieldSummary {
     fieldType: 'primitive' | 'object' | 'array'
     mods: PerFieldModInfo[]
-    distinctValues: string[]
+    distinctValues: TypedValue[]
+    occurrenceCount: number // number of values and arrays observed at this path, across all mods and files
+    fileCount: number // number of config files using the field
+    valueTypes: ValueTypeCounts
+    numericStats?: NumericStats
+    arrayStats?: ArrayStats // for array fields
+    compoundStats?: CompoundStats // for vectors, colors and curves
+    elementCount?: number // for fields inside arrays: the number of elements of the nearest enclosing array that set it
+}
+
+interface ModValueSources {
+    modName: string
+    sources: ValueSource[]
 }
 
 interface FieldTreeNode {
@@ -340,12 +885,22 @@ interface FieldTreeNode {
     children: Map<string, FieldTreeNode>
 }
 
+/** What a tree node's fields add up to, see aggregateNodeInfo */
+interface FieldNodeAggregate {
+    modNames: string[]
+    modUrls: Record<string, string>
+    modOccurrenceCounts: Record<string, number>
+    leafCount: number
+    occurrenceCount: number
+}
+
 /**
  * Generate an interactive HTML report from the analysis data
  */
 async function generateHtmlReport(
     analysisOutputDir: string,
-    configTypes: string[]
+    configTypes: string[],
+    extraSectionsHtml: string[]
 ): Promise<void> {
     const configTypeData: Record<string, Record<string, PerFieldSummary>> = {}
 
@@ -361,7 +916,7 @@ async function generateHtmlReport(
     }
 
     // Build the HTML
-    const html = buildHtmlDocument(configTypeData)
+    const html = buildHtmlDocument(configTypeData, extraSectionsHtml)
 
     // Write to file
     await writeFile(`${analysisOutputDir}/index.html`, html)
@@ -371,7 +926,7 @@ async function generateHtmlReport(
 /**
  * Build the complete HTML document with CSS and interactivity
  */
-function buildHtmlDocument(configTypeData: Record<string, Record<string, PerFieldSummary>>): string {
+function buildHtmlDocument(configTypeData: Record<string, Record<string, PerFieldSummary>>, extraSectionsHtml: string[]): string {
     return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -513,6 +1068,36 @@ function buildHtmlDocument(configTypeData: Record<string, Record<string, PerFiel
             margin-left: 10px;
         }
 
+        .value-types {
+            font-size: 0.8em;
+            color: #94a3b8;
+        }
+
+        .value-types.mixed {
+            color: #fbbf24;
+        }
+
+        .value-type {
+            display: inline-block;
+            min-width: 60px;
+            margin-right: 10px;
+            font-size: 0.75em;
+            color: #94a3b8;
+        }
+
+        .value-type-string {
+            color: #86efac;
+        }
+
+        .value-type-number,
+        .value-type-integer {
+            color: #93c5fd;
+        }
+
+        .value-type-boolean {
+            color: #fca5a5;
+        }
+
         .field-mods {
             position: relative;
             display: flex;
@@ -574,6 +1159,33 @@ function buildHtmlDocument(configTypeData: Record<string, Record<string, PerFiel
             font-size: 0.85em;
             font-weight: 600;
         }
+
+        .usage {
+            display: inline-flex;
+            align-items: center;
+            gap: 6px;
+        }
+
+        .usage-bar {
+            display: inline-block;
+            width: 60px;
+            height: 6px;
+            background-color: #1f2937;
+            border-radius: 3px;
+            overflow: hidden;
+        }
+
+        .usage-fill {
+            display: block;
+            height: 100%;
+            background-color: #a78bfa;
+        }
+
+        .usage-count {
+            font-size: 0.8em;
+            color: #94a3b8;
+            white-space: nowrap;
+        }
         
         .mod-tooltip {
             position: absolute;
@@ -623,6 +1235,16 @@ function buildHtmlDocument(configTypeData: Record<string, Record<string, PerFiel
             white-space: normal;
         }
         
+        /* Bridge the gap between the hovered item and its popup so links inside it stay reachable */
+        .mod-count::before {
+            content: '';
+            position: absolute;
+            left: 0;
+            right: 0;
+            bottom: -14px;
+            height: 14px;
+        }
+
         .mod-count::after {
             content: '';
             position: absolute;
@@ -659,8 +1281,282 @@ function buildHtmlDocument(configTypeData: Record<string, Record<string, PerFiel
             padding: 4px 10px;
             border-radius: 4px;
             font-size: 0.85em;
+            text-decoration: none;
+        }
+
+        a.mod-badge:hover,
+        a.value-source:hover {
+            color: #e5e7eb;
+            text-decoration: underline;
         }
         
+        .numeric-stats {
+            margin-bottom: 10px;
+            padding: 10px 12px;
+            background-color: #0d1528;
+            border: 1px solid #1f2937;
+            border-radius: 4px;
+            font-size: 0.85em;
+        }
+
+        .numeric-summary {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 16px;
+            font-family: 'Courier New', monospace;
+        }
+
+        .numeric-summary b {
+            color: #c4b5fd;
+            font-weight: 600;
+        }
+
+        .histogram {
+            display: flex;
+            align-items: flex-end;
+            gap: 2px;
+            height: 60px;
+            margin: 10px 0;
+        }
+
+        .histogram-bar {
+            flex: 1;
+            background-color: #a78bfa;
+            border-radius: 2px 2px 0 0;
+        }
+
+        .mod-range {
+            margin-top: 4px;
+            font-family: 'Courier New', monospace;
+        }
+
+        .color-swatches {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 4px;
+            margin: 10px 0;
+        }
+
+        .color-swatch {
+            display: inline-block;
+            width: 20px;
+            height: 20px;
+            border: 1px solid #374151;
+            border-radius: 3px;
+        }
+
+        .mod-range .color-swatch {
+            width: 12px;
+            height: 12px;
+            vertical-align: middle;
+        }
+
+        .curve-plot {
+            display: block;
+            width: 100%;
+            height: 80px;
+            margin: 10px 0;
+            background-color: #0d1528;
+            border-radius: 4px;
+        }
+
+        .curve-line {
+            fill: none;
+            stroke: #a78bfa;
+            stroke-opacity: 0.6;
+            stroke-width: 1.5;
+            vector-effect: non-scaling-stroke;
+        }
+
+        .mod-source-group {
+            margin-bottom: 8px;
+        }
+
+        .value-source {
+            display: block;
+            text-decoration: none;
+            margin: 2px 0 0 10px;
+            font-family: 'Courier New', monospace;
+            font-size: 0.85em;
+            color: #cbd5e1;
+        }
+
+        .value-pointer {
+            color: #94a3b8;
+        }
+
+        .section-subheader {
+            margin: 10px 0;
+            font-size: 1em;
+            color: #c4b5fd;
+        }
+
+        .section-note {
+            margin-bottom: 10px;
+            font-size: 0.9em;
+            color: #94a3b8;
+        }
+
+        .issue-item {
+            padding: 8px 12px;
+            margin-bottom: 6px;
+            background-color: #0d1528;
+            border: 1px solid #1f2937;
+            border-radius: 4px;
+        }
+
+        .issue-message {
+            margin-left: 8px;
+            font-size: 0.9em;
+        }
+
+        .error-snippet {
+            margin: 4px 0 8px;
+            padding: 6px 8px;
+            background-color: #0b1220;
+            border-radius: 4px;
+            font-family: 'Courier New', monospace;
+            font-size: 0.85em;
+            overflow-x: auto;
+        }
+
+        .issue-item .mod-list {
+            margin-top: 6px;
+        }
+
+        .reference-graph-controls {
+            display: flex;
+            align-items: center;
+            gap: 12px;
+            margin-bottom: 10px;
+            font-size: 0.9em;
+        }
+
+        .reference-graph-controls input[type="search"] {
+            padding: 4px 8px;
+            background-color: #0b1220;
+            color: #e5e7eb;
+            border: 1px solid #1f2937;
+            border-radius: 4px;
+        }
+
+        .reference-graph-controls .section-note {
+            margin: 0 0 0 auto;
+        }
+
+        .reference-graph {
+            width: 100%;
+            height: 600px;
+            margin-bottom: 10px;
+            background-color: #0b1220;
+            border-radius: 4px;
+            cursor: grab;
+        }
+
+        .graph-edge {
+            stroke: #334155;
+            stroke-width: 1;
+        }
+
+        .graph-edge.dependency {
+            stroke: #60a5fa;
+        }
+
+        .graph-edge.conflict {
+            stroke: #f87171;
+            stroke-dasharray: 4 3;
+        }
+
+        .graph-edge.detail {
+            stroke: #a78bfa;
+            stroke-dasharray: 2 2;
+        }
+
+        .graph-node circle {
+            fill: #34d399;
+            stroke: #0b1220;
+            stroke-width: 1.5;
+        }
+
+        .graph-node.mod circle {
+            fill: #60a5fa;
+        }
+
+        .graph-node.system circle {
+            fill: #fbbf24;
+        }
+
+        .graph-node.built-in circle {
+            stroke: #e5e7eb;
+        }
+
+        .graph-node.undefined circle {
+            fill: #f87171;
+        }
+
+        .graph-node text {
+            fill: #cbd5e1;
+            font-size: 10px;
+            pointer-events: none;
+        }
+
+        .reference-graph.hovering .graph-node:not(.highlighted),
+        .reference-graph.hovering .graph-edge:not(.highlighted) {
+            opacity: 0.15;
+        }
+
+        .coverage-table {
+            width: 100%;
+            margin-bottom: 20px;
+            border-collapse: collapse;
+            font-size: 0.9em;
+        }
+
+        .coverage-table th,
+        .coverage-table td {
+            padding: 4px 10px;
+            border-bottom: 1px solid #1f2937;
+            text-align: left;
+        }
+
+        .coverage-table td:first-child {
+            font-family: 'Courier New', monospace;
+        }
+
+        .coverage-table tr.unused td {
+            color: #fbbf24;
+        }
+
+        .cooccurrence-heatmap {
+            margin-bottom: 10px;
+            border-collapse: collapse;
+            font-size: 0.8em;
+        }
+
+        .cooccurrence-heatmap th {
+            padding: 2px 8px;
+            font-family: 'Courier New', monospace;
+            font-weight: normal;
+            color: #cbd5e1;
+            text-align: left;
+            white-space: nowrap;
+        }
+
+        .cooccurrence-heatmap thead th {
+            padding: 2px;
+            text-align: center;
+        }
+
+        .cooccurrence-cell {
+            width: 20px;
+            height: 20px;
+            border: 1px solid #1f2937;
+        }
+
+        .cooccurrence-cell.self {
+            background-color: #1f2937;
+        }
+
         .stats {
             margin-bottom: 30px;
             padding: 20px;
@@ -701,6 +1597,8 @@ function buildHtmlDocument(configTypeData: Record<string, Record<string, PerFiel
             </div>
             
             ${getConfigTypesHtml(configTypeData)}
+
+            ${extraSectionsHtml.join('')}
         </div>
     </div>
     
@@ -765,11 +1663,21 @@ function getStatisticsHtml(configTypeData: Record<string, Record<string, PerFiel
     }
     let totalFields = 0
     let totalValues = 0
+    let totalOccurrences = 0
+    let mixedTypeFields = 0
 
     for (const type of Object.values(configTypeData)) {
         totalFields += Object.keys(type).length
-        for (const field of Object.values(type)) {
+        for (const [fieldPath, field] of Object.entries(type)) {
             totalValues += field.distinctValues.length
+            // The components of a vector or color are part of a use of the compound
+            const parentPath = joinFieldPath(splitFieldPath(fieldPath).slice(0, -1))
+            if (!hasCompoundComponents(type[parentPath])) {
+                totalOccurrences += field.occurrenceCount
+            }
+            if (isMixedValueType(field.valueTypes)) {
+                mixedTypeFields++
+            }
         }
     }
 
@@ -786,6 +1694,14 @@ function getStatisticsHtml(configTypeData: Record<string, Record<string, PerFiel
             <div class="stat-number">${totalValues}</div>
             <div class="stat-label">Distinct Values</div>
         </div>
+        <div class="stat-box">
+            <div class="stat-number">${totalOccurrences}</div>
+            <div class="stat-label">Field Uses</div>
+        </div>
+        <div class="stat-box">
+            <div class="stat-number">${mixedTypeFields}</div>
+            <div class="stat-label">Mixed-Type Fields</div>
+        </div>
     `
 }
 
@@ -823,20 +1739,20 @@ function getConfigTypeHtml(configType: string, fields: Record<string, PerFieldSu
 }
 
 /**
- * Build a tree from dotted field paths
+ * Build a tree from dotted field paths, with the items of each array as a '[]' child of the array
  */
 function buildFieldTree(fields: Record<string, PerFieldSummary>): FieldTreeNode {
     const root: FieldTreeNode = { name: '', fullPath: '', children: new Map() }
 
     for (const [path, summary] of Object.entries(fields)) {
-        const parts = path.split('.')
+        const parts = splitFieldPath(path)
         let current = root
         let acc: string[] = []
 
         for (const part of parts) {
             acc.push(part)
             if (!current.children.has(part)) {
-                current.children.set(part, { name: part, fullPath: acc.join('.'), children: new Map() })
+                current.children.set(part, { name: part, fullPath: joinFieldPath(acc), children: new Map() })
             }
             current = current.children.get(part)!
         }
@@ -847,40 +1763,59 @@ function buildFieldTree(fields: Record<string, PerFieldSummary>): FieldTreeNode
 }
 
 /**
- * Render all children of a tree node
+ * Render all children of a tree node, most used first.
+ * arrayElementCount is the number of elements of the array the children are nested in, if any.
  */
-function getFieldChildrenHtml(node: FieldTreeNode, depth: number): string {
-    return Array.from(node.children.values())
-        .sort((a, b) => a.name.localeCompare(b.name))
-        .map(child => getFieldNodeHtml(child, depth + 1))
+function getFieldChildrenHtml(node: FieldTreeNode, depth: number, arrayElementCount?: number): string {
+    const children = Array.from(node.children.values())
+        .map(child => ({ child, aggregate: aggregateNodeInfo(child) }))
+        .sort((a, b) => b.aggregate.occurrenceCount - a.aggregate.occurrenceCount || a.child.name.localeCompare(b.child.name))
+    const maxOccurrenceCount = Math.max(0, ...children.map(({ aggregate }) => aggregate.occurrenceCount))
+    return children
+        .map(({ child, aggregate }) => getFieldNodeHtml(child, aggregate, depth + 1, maxOccurrenceCount, arrayElementCount))
         .join('')
 }
 
 /**
- * Render a single tree node (field or container)
+ * Render a single tree node (field or container) from its aggregate, with a usage bar scaled to its most used sibling
  */
-function getFieldNodeHtml(node: FieldTreeNode, depth: number): string {
-    const aggregate = aggregateNodeInfo(node)
+function getFieldNodeHtml(node: FieldTreeNode, aggregate: FieldNodeAggregate, depth: number, maxSiblingOccurrenceCount: number, arrayElementCount?: number): string {
     const hasSummary = Boolean(node.summary)
     const hasChildren = node.children.size > 0
-    const leafCountLabel = hasSummary
-        ? `${node.summary!.distinctValues.length} values`
-        : `${aggregate.leafCount} field${aggregate.leafCount !== 1 ? 's' : ''}`
+    const arrayStats = node.summary?.arrayStats
+    const compoundStats = node.summary?.compoundStats
+    const compoundType = compoundStats ? getCompoundValueType(compoundStats) : null
+    const compoundCount = compoundType ? compoundStats![compoundType]!.count : 0
+    const leafCountLabel = compoundType
+        ? `${compoundCount} ${compoundType}${compoundCount !== 1 ? 's' : ''}`
+        : arrayStats
+        ? `${arrayStats.lengths.count} array${arrayStats.lengths.count !== 1 ? 's' : ''}`
+        : hasSummary
+            ? `${node.summary!.distinctValues.length} values`
+            : `${aggregate.leafCount} field${aggregate.leafCount !== 1 ? 's' : ''}`
+    // Fields inside arrays show how many of the array's elements set them
+    const elementCount = node.summary?.elementCount
+    const elementCoverageHtml = elementCount && arrayElementCount && node.name !== ARRAY_ITEMS_SEGMENT
+        ? `<span class="value-types">in ${elementCount} of ${arrayElementCount} elements</span>`
+        : ''
 
-    let valuesByMod: Record<string, string[]> = {}
-    let sortedValues: string[] = []
+    let valuesByMod: Record<string, ModValueSources[]> = {}
+    let sortedValues: TypedValue[] = []
 
     if (node.summary) {
-        sortedValues = node.summary.distinctValues.slice().sort()
+        sortedValues = node.summary.distinctValues.slice().sort(compareValueUsage)
         valuesByMod = buildValuesByMod(node.summary)
     }
 
-    const fieldTypeLabel = node.summary?.fieldType ?? 'object'
+    const fieldTypeLabel = compoundType ?? node.summary?.fieldType ?? 'object'
 
     const valuesHtml = hasSummary
         ? `
             <div class="field-values collapsed">
-                ${sortedValues.map(value => getValueItemHtml(value, valuesByMod[value] || [])).join('')}
+                ${compoundStats ? getCompoundStatsHtml(node.summary!) : ''}
+                ${arrayStats && !compoundStats?.curve ? getArrayStatsHtml(node.summary!) : ''}
+                ${node.summary!.numericStats ? getNumericStatsHtml(node.summary!) : ''}
+                ${sortedValues.map(typed => getValueItemHtml(typed, valuesByMod[getJsonValueKey(typed.value)] || [], sortedValues[0].count)).join('')}
             </div>
         `
         : ''
@@ -888,7 +1823,7 @@ function getFieldNodeHtml(node: FieldTreeNode, depth: number): string {
     const childrenHtml = hasChildren
         ? `
             <div class="field-children collapsed">
-                ${getFieldChildrenHtml(node, depth)}
+                ${getFieldChildrenHtml(node, depth, arrayStats ? arrayStats.elementCount : arrayElementCount)}
             </div>
         `
         : ''
@@ -899,15 +1834,18 @@ function getFieldNodeHtml(node: FieldTreeNode, depth: number): string {
                 <span class="field-toggle">▼</span>
                 <span class="field-name">${escapeHtml(node.name)}</span>
                 <span class="field-type">${fieldTypeLabel}</span>
+                ${node.summary ? getValueTypesHtml(node.summary.valueTypes) : ''}
+                ${elementCoverageHtml}
                 <div class="field-mods">
                     <span class="value-mod-count">${aggregate.modNames.length}</span>
                     <div class="mod-count">
-                        <div class="mods-header">Present in ${aggregate.modNames.length} mod${aggregate.modNames.length !== 1 ? 's' : ''}:</div>
+                        <div class="mods-header">Present in ${aggregate.modNames.length} mod${aggregate.modNames.length !== 1 ? 's' : ''}, most used first:</div>
                         <div class="mod-list">
-                            ${aggregate.modNames.map(mod => `<span class="mod-badge">${escapeHtml(mod)}</span>`).join('')}
+                            ${aggregate.modNames.map(mod => getModBadgeHtml(mod, aggregate.modUrls[mod])).join('')}
                         </div>
                     </div>
                 </div>
+                ${getUsageHtml(aggregate.occurrenceCount, maxSiblingOccurrenceCount, node.summary ? `${node.summary.occurrenceCount} uses in ${node.summary.fileCount} file${node.summary.fileCount !== 1 ? 's' : ''}` : `${aggregate.occurrenceCount} uses of the fields below`)}
                 <span style="margin-left: auto; font-size: 0.85em; font-weight: normal; color: #999;">${leafCountLabel}</span>
             </div>
             ${valuesHtml}
@@ -917,60 +1855,324 @@ function getFieldNodeHtml(node: FieldTreeNode, depth: number): string {
 }
 
 /**
- * Build value -> mods map for a summary
+ * Render a usage count with a bar scaled to the largest count it is compared with
+ */
+function getUsageHtml(count: number, maxCount: number, title: string): string {
+    const width = maxCount > 0 ? Math.max(2, Math.round(count / maxCount * 100)) : 0
+    return `
+        <span class="usage" title="${escapeHtml(title)}">
+            <span class="usage-bar"><span class="usage-fill" style="width: ${width}%;"></span></span>
+            <span class="usage-count">×${count}</span>
+        </span>
+    `
+}
+
+/**
+ * Render min/max/mean/median, a histogram and per-mod ranges for a numeric field
+ */
+function getNumericStatsHtml(summary: PerFieldSummary): string {
+    const stats = summary.numericStats!
+    const modRanges = summary.mods.filter(mod => mod.numericStats)
+
+    return `
+        <div class="numeric-stats">
+            <div class="numeric-summary">
+                <span><b>min</b> ${formatNumber(stats.min)}</span>
+                <span><b>max</b> ${formatNumber(stats.max)}</span>
+                <span><b>mean</b> ${formatNumber(stats.mean)}</span>
+                <span><b>median</b> ${formatNumber(stats.median)}</span>
+                <span><b>n</b> ${stats.count}</span>
+            </div>
+            ${getHistogramHtml(stats)}
+            <div class="mod-ranges">
+                ${modRanges.map(mod => `
+                    <div class="mod-range"><span class="mod-badge">${escapeHtml(mod.modName)}</span> ${formatNumber(mod.numericStats!.min)} to ${formatNumber(mod.numericStats!.max)} (median ${formatNumber(mod.numericStats!.median)}, n=${mod.numericStats!.count})</div>
+                `).join('')}
+            </div>
+        </div>
+    `
+}
+
+/**
+ * Render length statistics, a length histogram and per-mod lengths for an array field
+ */
+function getArrayStatsHtml(summary: PerFieldSummary): string {
+    const stats = summary.arrayStats!
+    const modStats = summary.mods.filter(mod => mod.arrayStats)
+
+    return `
+        <div class="numeric-stats">
+            <div class="numeric-summary">
+                <span><b>arrays</b> ${stats.lengths.count}</span>
+                <span><b>elements</b> ${stats.elementCount}</span>
+                <span><b>length</b> ${formatNumber(stats.lengths.min)} to ${formatNumber(stats.lengths.max)}</span>
+                <span><b>mean</b> ${formatNumber(stats.lengths.mean)}</span>
+                <span><b>median</b> ${formatNumber(stats.lengths.median)}</span>
+            </div>
+            ${getHistogramHtml(stats.lengths)}
+            <div class="mod-ranges">
+                ${modStats.map(mod => `
+                    <div class="mod-range"><span class="mod-badge">${escapeHtml(mod.modName)}</span> ${mod.arrayStats!.lengths.count} array${mod.arrayStats!.lengths.count !== 1 ? 's' : ''}, length ${formatNumber(mod.arrayStats!.lengths.min)} to ${formatNumber(mod.arrayStats!.lengths.max)}, ${mod.arrayStats!.elementCount} elements</div>
+                `).join('')}
+            </div>
+        </div>
+    `
+}
+
+/**
+ * Render the statistics of a field's vectors, colors and curves with a renderer for each kind
+ */
+function getCompoundStatsHtml(summary: PerFieldSummary): string {
+    const stats = summary.compoundStats!
+    return [
+        stats.vector ? getVectorStatsHtml(stats.vector, summary.mods) : '',
+        stats.color ? getColorStatsHtml(stats.color, summary.mods) : '',
+        stats.curve ? getCurveStatsHtml(stats.curve, summary.mods) : '',
+    ].join('')
+}
+
+/**
+ * Render magnitude statistics, a magnitude histogram, component ranges and per-mod magnitudes for a vector field
+ */
+function getVectorStatsHtml(stats: VectorStats, mods: PerFieldModInfo[]): string {
+    const modStats = mods.filter(mod => mod.compoundStats?.vector)
+    return `
+        <div class="numeric-stats">
+            <div class="numeric-summary">
+                <span><b>vectors</b> ${stats.count}</span>
+                <span><b>magnitude</b> ${formatNumber(stats.magnitude.min)} to ${formatNumber(stats.magnitude.max)}</span>
+                <span><b>mean</b> ${formatNumber(stats.magnitude.mean)}</span>
+                <span><b>median</b> ${formatNumber(stats.magnitude.median)}</span>
+            </div>
+            <div class="numeric-summary">
+                ${Object.entries(stats.components).map(([component, range]) => `<span><b>${component}</b> ${formatNumber(range.min)} to ${formatNumber(range.max)}</span>`).join('')}
+            </div>
+            ${getHistogramHtml(stats.magnitude)}
+            <div class="mod-ranges">
+                ${modStats.map(mod => `
+                    <div class="mod-range"><span class="mod-badge">${escapeHtml(mod.modName)}</span> ${mod.compoundStats!.vector!.count} vector${mod.compoundStats!.vector!.count !== 1 ? 's' : ''}, magnitude ${formatNumber(mod.compoundStats!.vector!.magnitude.min)} to ${formatNumber(mod.compoundStats!.vector!.magnitude.max)}</div>
+                `).join('')}
+            </div>
+        </div>
+    `
+}
+
+/**
+ * Render the distinct colors of a color field as swatches, most used first, and each mod's colors
+ */
+function getColorStatsHtml(stats: ColorStats, mods: PerFieldModInfo[]): string {
+    const modStats = mods.filter(mod => mod.compoundStats?.color)
+    const hiddenCount = stats.colors.length - MAX_COLOR_SWATCHES
+    return `
+        <div class="numeric-stats">
+            <div class="numeric-summary">
+                <span><b>colors</b> ${stats.count}</span>
+                <span><b>distinct</b> ${stats.colors.length}</span>
+            </div>
+            <div class="color-swatches">
+                ${stats.colors.slice(0, MAX_COLOR_SWATCHES).map(color => getColorSwatchHtml(color, color.count)).join('')}
+                ${hiddenCount > 0 ? `<span class="value-types">…and ${hiddenCount} more</span>` : ''}
+            </div>
+            <div class="mod-ranges">
+                ${modStats.map(mod => `
+                    <div class="mod-range"><span class="mod-badge">${escapeHtml(mod.modName)}</span> ${mod.compoundStats!.color!.colors.slice(0, MAX_COLOR_SWATCHES).map(color => getColorSwatchHtml(color, color.count)).join('')}</div>
+                `).join('')}
+            </div>
+        </div>
+    `
+}
+
+/**
+ * Render a single color as a swatch, titled with its components and how often it is used.
+ * Components are 0-255 as in New Horizons' MColor; values outside that range are clamped for display.
+ */
+function getColorSwatchHtml(color: RgbaColor, count: number): string {
+    const clamp = (component: number) => Math.min(255, Math.max(0, Math.round(component)))
+    const alpha = color.a === undefined ? 1 : clamp(color.a) / 255
+    const label = [color.r, color.g, color.b, ...(color.a !== undefined ? [color.a] : [])].map(formatNumber).join(', ')
+    return `<span class="color-swatch" style="background-color: rgba(${clamp(color.r)}, ${clamp(color.g)}, ${clamp(color.b)}, ${formatNumber(alpha)});" title="${label} ×${count}"></span>`
+}
+
+/**
+ * Render keyframe statistics and a plot of the first few curves of a curve field, and per-mod ranges
+ */
+function getCurveStatsHtml(stats: CurveStats, mods: PerFieldModInfo[]): string {
+    const modStats = mods.filter(mod => mod.compoundStats?.curve)
+    const timeRange = stats.time.max - stats.time.min
+    const valueRange = stats.value.max - stats.value.min
+    // Plotted in a 100x100 box stretched to the plot's size; a constant time or value is drawn across the middle
+    const getPoint = ({ time, value }: CurveKeyframe) => {
+        const x = timeRange === 0 ? 50 : (time - stats.time.min) / timeRange * 100
+        const y = valueRange === 0 ? 50 : 100 - (value - stats.value.min) / valueRange * 100
+        return `${formatNumber(x)},${formatNumber(y)}`
+    }
+    return `
+        <div class="numeric-stats">
+            <div class="numeric-summary">
+                <span><b>curves</b> ${stats.count}</span>
+                <span><b>keyframes</b> ${formatNumber(stats.keyframes.min)} to ${formatNumber(stats.keyframes.max)}</span>
+                <span><b>time</b> ${formatNumber(stats.time.min)} to ${formatNumber(stats.time.max)}</span>
+                <span><b>value</b> ${formatNumber(stats.value.min)} to ${formatNumber(stats.value.max)}</span>
+            </div>
+            <svg class="curve-plot" viewBox="0 0 100 100" preserveAspectRatio="none">
+                ${stats.samples.map(curve => `<polyline class="curve-line" points="${curve.map(getPoint).join(' ')}"></polyline>`).join('')}
+            </svg>
+            ${stats.samples.length < stats.count ? `<div class="value-types">Showing the first ${stats.samples.length} of ${stats.count} curves</div>` : ''}
+            <div class="mod-ranges">
+                ${modStats.map(mod => `
+                    <div class="mod-range"><span class="mod-badge">${escapeHtml(mod.modName)}</span> ${mod.compoundStats!.curve!.count} curve${mod.compoundStats!.curve!.count !== 1 ? 's' : ''}, time ${formatNumber(mod.compoundStats!.curve!.time.min)} to ${formatNumber(mod.compoundStats!.curve!.time.max)}, value ${formatNumber(mod.compoundStats!.curve!.value.min)} to ${formatNumber(mod.compoundStats!.curve!.value.max)}</div>
+                `).join('')}
+            </div>
+        </div>
+    `
+}
+
+/**
+ * Render a histogram as bars scaled to the fullest bucket
+ */
+function getHistogramHtml(stats: NumericStats): string {
+    const maxBucketCount = Math.max(...stats.histogram.map(bucket => bucket.count))
+    return `
+        <div class="histogram">
+            ${stats.histogram.map(bucket => `
+                <div class="histogram-bar" style="height: ${Math.max(2, Math.round(bucket.count / maxBucketCount * 100))}%;" title="${formatNumber(bucket.start)} to ${formatNumber(bucket.end)}: ${bucket.count}"></div>
+            `).join('')}
+        </div>
+    `
+}
+
+/**
+ * Render the share of each value type for a field, e.g. "87% number, 13% string"
+ */
+function getValueTypesHtml(valueTypes: ValueTypeCounts): string {
+    const entries = (Object.entries(valueTypes) as [JsonValueType, number][]).sort((a, b) => b[1] - a[1])
+    const total = entries.reduce((sum, [, count]) => sum + count, 0)
+    if (total === 0) {
+        return ''
+    }
+    const label = entries
+        .map(([valueType, count]) => `${Math.round(count / total * 100)}% ${valueType}`)
+        .join(', ')
+    return `<span class="value-types${isMixedValueType(valueTypes) ? ' mixed' : ''}">${label}</span>`
+}
+
+/**
+ * Whether a field mixes incompatible value types, such as numbers or booleans alongside strings.
+ * Integers and other numbers are treated as the same kind, and null, which any optional field can hold, is ignored.
+ */
+function isMixedValueType(valueTypes: ValueTypeCounts): boolean {
+    const kinds = new Set((Object.keys(valueTypes) as JsonValueType[]).filter(t => t !== 'null').map(t => t === 'integer' ? 'number' : t))
+    return kinds.size > 1
+}
+
+/**
+ * Build value -> mods map for a summary, keyed by getJsonValueKey so values of different types stay apart.
+ * Each mod entry lists the files and JSON pointers where it uses the value.
  */
-function buildValuesByMod(summary: PerFieldSummary): Record<string, string[]> {
-    const valuesByMod: Record<string, string[]> = {}
+function buildValuesByMod(summary: PerFieldSummary): Record<string, ModValueSources[]> {
+    const valuesByMod: Record<string, ModValueSources[]> = {}
     for (const mod of summary.mods) {
-        for (const value of mod.values) {
-            if (!valuesByMod[value]) {
-                valuesByMod[value] = []
+        const sourcesByValue = new Map<string, ValueSource[]>()
+        for (const { value, ...source } of mod.occurrences) {
+            const key = getJsonValueKey(value)
+            if (!sourcesByValue.has(key)) {
+                sourcesByValue.set(key, [])
+            }
+            sourcesByValue.get(key)!.push(source)
+        }
+        for (const [key, sources] of sourcesByValue) {
+            if (!valuesByMod[key]) {
+                valuesByMod[key] = []
             }
-            valuesByMod[value].push(mod.modName)
+            valuesByMod[key].push({ modName: mod.modName, sources })
         }
     }
     return valuesByMod
 }
 
 /**
- * Aggregate mod list and leaf counts for a tree node
+ * Get a lookup key for a JSON primitive that distinguishes e.g. the number 1 from the string "1"
+ */
+function getJsonValueKey(value: JsonPrimitive): string {
+    return JSON.stringify(value)
+}
+
+/**
+ * Format a number for display, trimming floating point noise
  */
-function aggregateNodeInfo(node: FieldTreeNode): { modNames: string[]; leafCount: number } {
-    const modSet = new Set<string>()
+function formatNumber(value: number): string {
+    return Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(6)))
+}
+
+/**
+ * Whether a field holds vectors or colors, whose components are fields of their own
+ */
+function hasCompoundComponents(summary: PerFieldSummary | undefined): boolean {
+    return Boolean(summary?.compoundStats?.vector || summary?.compoundStats?.color)
+}
+
+/**
+ * Aggregate mod list, leaf counts and uses for a tree node.
+ * Mods are ordered by how often they use the node's fields, most first.
+ */
+function aggregateNodeInfo(node: FieldTreeNode): FieldNodeAggregate {
+    const modOccurrenceCounts: Record<string, number> = {}
+    const modUrls: Record<string, string> = {}
     let leafCount = 0
+    let occurrenceCount = 0
 
     if (node.summary) {
         for (const mod of node.summary.mods) {
-            modSet.add(mod.modName)
+            modOccurrenceCounts[mod.modName] = (modOccurrenceCounts[mod.modName] ?? 0) + mod.occurrenceCount
+            const url = mod.occurrences.find(occurrence => occurrence.url)?.url
+            if (url) {
+                modUrls[mod.modName] = url
+            }
         }
         leafCount += 1
+        occurrenceCount += node.summary.occurrenceCount
     }
 
+    // A vector or color is a single use, not one more than each of its components
+    const countsChildUses = !hasCompoundComponents(node.summary)
     for (const child of node.children.values()) {
         const childInfo = aggregateNodeInfo(child)
         leafCount += childInfo.leafCount
+        occurrenceCount += countsChildUses ? childInfo.occurrenceCount : 0
         for (const modName of childInfo.modNames) {
-            modSet.add(modName)
+            modOccurrenceCounts[modName] = (modOccurrenceCounts[modName] ?? 0) + (countsChildUses ? childInfo.modOccurrenceCounts[modName] : 0)
+            if (!modUrls[modName] && childInfo.modUrls[modName]) {
+                modUrls[modName] = childInfo.modUrls[modName]
+            }
         }
     }
 
     return {
-        modNames: Array.from(modSet).sort(),
-        leafCount
+        modNames: Object.keys(modOccurrenceCounts).sort((a, b) => modOccurrenceCounts[b] - modOccurrenceCounts[a] || a.localeCompare(b)),
+        modUrls,
+        modOccurrenceCounts,
+        leafCount,
+        occurrenceCount
     }
 }
-function getValueItemHtml(value: string, mods: string[]): string {
+
+/**
+ * Render a value with how often it is used, scaled to the field's most used value, and the mods using it on hover
+ */
+function getValueItemHtml(typed: TypedValue, mods: ModValueSources[], maxValueCount: number): string {
     const modCount = mods.length
-    const sortedMods = mods.sort()
+    const sortedMods = mods.sort((a, b) => b.sources.length - a.sources.length || a.modName.localeCompare(b.modName))
 
     return `
         <div class="value-item">
-            <span class="value-text">${escapeHtml(value)}</span>
+            <span class="value-type value-type-${typed.type}">${typed.type}</span>
+            <span class="value-text">${escapeHtml(typeof typed.value === 'string' ? JSON.stringify(typed.value) : String(typed.value))}</span>
+            ${getUsageHtml(typed.count, maxValueCount, `${typed.count} use${typed.count !== 1 ? 's' : ''}`)}
             <span class="value-mod-count">${modCount}</span>
             <div class="mod-count">
-                <div class="mods-header">Used by ${modCount} mod${modCount !== 1 ? 's' : ''}:</div>
-                <div class="mod-list">
-                    ${sortedMods.map(mod => `<span class="mod-badge">${escapeHtml(mod)}</span>`).join('')}
+                <div class="mods-header">Used ${typed.count} time${typed.count !== 1 ? 's' : ''} by ${modCount} mod${modCount !== 1 ? 's' : ''}:</div>
+                <div class="mod-sources">
+                    ${sortedMods.map(mod => getModSourcesHtml(mod)).join('')}
                 </div>
             </div>
         </div>
@@ -978,16 +2180,17 @@ function getValueItemHtml(value: string, mods: string[]): string {
 }
 
 /**
- * Escape HTML special characters
+ * Render a mod badge followed by the files and JSON pointers where the mod uses a value
  */
-function escapeHtml(text: string): string {
-    const map: Record<string, string> = {
-        '&': '&amp;',
-        '<': '&lt;',
-        '>': '&gt;',
-        '"': '&quot;',
-        "'": '&#039;'
-    }
-    return text.replace(/[&<>"']/g, char => map[char])
+function getModSourcesHtml(mod: ModValueSources): string {
+    const shownSources = mod.sources.slice(0, MAX_TOOLTIP_SOURCES)
+    const hiddenCount = mod.sources.length - shownSources.length
+    return `
+        <div class="mod-source-group">
+            ${getModBadgeHtml(mod.modName, mod.sources.find(source => source.url)?.url)}
+            <span class="usage-count">×${mod.sources.length}</span>
+            ${shownSources.map(source => getSourceLocationHtml(source)).join('')}
+            ${hiddenCount > 0 ? `<div class="value-source">…and ${hiddenCount} more</div>` : ''}
+        </div>
+    `
 }
-
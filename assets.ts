@@ -0,0 +1,238 @@
+import { mkdir, writeFile } from "node:fs/promises"
+import { extractFieldsFromJson } from "./analysis.ts"
+import { listConfigFiles, type AnalysisContext } from "./context.ts"
+import type { DynamicKeyRule } from "./dynamic-keys.ts"
+import { escapeHtml, getModBadgeHtml, getSourceLocationHtml } from "./html.ts"
+import { getGitHubPermalink } from "./locations.ts"
+
+/** Maximum number of references or assets rendered per mod in the HTML report; the JSON output is complete */
+const MAX_ITEMS_PER_GROUP = 100
+
+/** Extensions of files New Horizons loads from a path in a config: textures, heightmaps, dialogue XML, audio clips and meshes */
+const ASSET_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.xml', '.wav', '.mp3', '.ogg', '.obj']
+
+/** Extensions of files that are only ever loaded through a config, so a mod shipping one that nothing references is likely leftover */
+const MEDIA_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.wav', '.mp3', '.ogg', '.obj']
+
+/** Fields holding asset bundle paths, which have no extension */
+const ASSET_BUNDLE_FIELDS = ['assetBundle']
+
+export interface AssetReference {
+    configType: string
+    modName: string
+    file: string
+    pointer: string // JSON pointer of the path value
+    line?: number
+    url?: string
+    fieldPath: string // e.g. Props.details.assetBundle
+    path: string // the path as written in the config
+    actualPath?: string // for case mismatches: the path of the file in the mod, which only matches case-insensitively
+}
+
+export interface ModAssetReport {
+    checked: number // asset references resolved against the mod's files
+    missing: AssetReference[]
+    caseMismatches: AssetReference[] // found on Windows, but missing on Linux and macOS where paths are case-sensitive
+    unused: string[] // media files in the mod that no config references, as paths from the mod root
+}
+
+export interface AssetReport {
+    perMod: Record<string, ModAssetReport>
+    pathFields: Record<string, Record<string, number>> // Config Type -> field path -> number of asset references in it
+    modsWithoutFileTree: string[] // mods cached before file listings were recorded, whose references could not be resolved
+}
+
+/**
+ * Find config values that are paths to files in the mod, resolve them against the mod's file listing, and report
+ * missing files, case mismatches and unused assets to analysis/assets/
+ */
+export async function analyzeAssetReferences(ctx: AnalysisContext, analysisOutputDir: string, dynamicKeyRules: Record<string, DynamicKeyRule[]>): Promise<AssetReport> {
+    console.log('Resolving asset references...')
+    const report: AssetReport = { perMod: {}, pathFields: {}, modsWithoutFileTree: [] }
+    const referencedPaths = new Map<string, Set<string>>() // Mod UniqueName -> lowercased paths referenced by its configs
+    const fileIndexes = new Map<string, Map<string, string>>() // Mod UniqueName -> lowercased path -> path of the mod's file
+
+    const configFiles = listConfigFiles(ctx).sort((a, b) => a.modName.localeCompare(b.modName) || a.filePath.localeCompare(b.filePath))
+    for (const { configType, modName, filePath, data } of configFiles) {
+        const fileTree = ctx.modFileTrees[modName]
+        if (!fileTree) {
+            if (!report.modsWithoutFileTree.includes(modName)) {
+                report.modsWithoutFileTree.push(modName)
+            }
+            continue
+        }
+        if (!fileIndexes.has(modName)) {
+            fileIndexes.set(modName, new Map(fileTree.map(path => [path.toLowerCase(), path])))
+        }
+        const filesByLowerPath = fileIndexes.get(modName)!
+        const modReport = report.perMod[modName] = report.perMod[modName] || { checked: 0, missing: [], caseMismatches: [], unused: [] }
+        if (!referencedPaths.has(modName)) {
+            referencedPaths.set(modName, new Set())
+        }
+
+        for (const [fieldPath, analysis] of extractFieldsFromJson(data, dynamicKeyRules[configType] ?? [])) {
+            for (const { value, pointer } of analysis.occurrences) {
+                if (typeof value !== 'string' || !isAssetPath(fieldPath, value)) continue
+
+                report.pathFields[configType] = report.pathFields[configType] || {}
+                report.pathFields[configType][fieldPath] = (report.pathFields[configType][fieldPath] ?? 0) + 1
+                modReport.checked++
+
+                const path = normalizeAssetPath(value)
+                referencedPaths.get(modName)!.add(path.toLowerCase())
+                const actualPath = filesByLowerPath.get(path.toLowerCase())
+                if (actualPath === path) continue
+
+                const line = ctx.configLines[modName]?.[filePath]?.[pointer]
+                const source = ctx.modSources[modName]
+                const url = source ? getGitHubPermalink(source, filePath, line) : null
+                const reference: AssetReference = {
+                    configType,
+                    modName,
+                    file: filePath,
+                    pointer,
+                    ...(line ? { line } : {}),
+                    ...(url ? { url } : {}),
+                    fieldPath,
+                    path: value,
+                }
+                if (actualPath) {
+                    modReport.caseMismatches.push({ ...reference, actualPath })
+                } else {
+                    modReport.missing.push(reference)
+                }
+            }
+        }
+    }
+
+    for (const [modName, modReport] of Object.entries(report.perMod)) {
+        const referenced = referencedPaths.get(modName)!
+        modReport.unused = ctx.modFileTrees[modName]
+            .filter(path => MEDIA_EXTENSIONS.includes(getExtension(path)) && !referenced.has(path.toLowerCase()))
+            .sort()
+    }
+
+    const assetsOutputDir = `${analysisOutputDir}/assets`
+    await mkdir(assetsOutputDir, { recursive: true })
+    await writeFile(`${assetsOutputDir}/per-mod-assets.json`, JSON.stringify(report.perMod, null, 2))
+    await writeFile(`${assetsOutputDir}/path-fields.json`, JSON.stringify(report.pathFields, null, 2))
+    await writeFile(`${assetsOutputDir}/summary.json`, JSON.stringify({
+        checkedReferences: sumModReports(report, modReport => modReport.checked),
+        missing: sumModReports(report, modReport => modReport.missing.length),
+        caseMismatches: sumModReports(report, modReport => modReport.caseMismatches.length),
+        unused: sumModReports(report, modReport => modReport.unused.length),
+        modsWithoutFileTree: report.modsWithoutFileTree,
+    }, null, 2))
+
+    console.log(`  Checked ${sumModReports(report, modReport => modReport.checked)} asset references, ${sumModReports(report, modReport => modReport.missing.length)} missing`)
+    return report
+}
+
+/**
+ * Whether a config value is a path to a file in the mod: it ends in an asset extension, or is in an asset bundle field.
+ * URLs and schema references are not, and neither are audio values that name one of the game's built-in clips.
+ */
+function isAssetPath(fieldPath: string, value: string): boolean {
+    if (value.trim() === '' || value.includes('://') || fieldPath === '$schema' || fieldPath.endsWith('.$schema')) {
+        return false
+    }
+    const key = fieldPath.substring(fieldPath.lastIndexOf('.') + 1)
+    return ASSET_BUNDLE_FIELDS.includes(key) || ASSET_EXTENSIONS.includes(getExtension(value))
+}
+
+/**
+ * Normalize a path as New Horizons resolves it from the mod root: forward slashes, without a leading './' or '/'
+ */
+function normalizeAssetPath(path: string): string {
+    return path.trim().replace(/\\/g, '/').replace(/^(\.?\/)+/, '')
+}
+
+/** Lowercased extension of a path including the dot, or '' if it has none */
+function getExtension(path: string): string {
+    const fileName = path.substring(path.lastIndexOf('/') + 1)
+    const index = fileName.lastIndexOf('.')
+    return index > 0 ? fileName.substring(index).toLowerCase() : ''
+}
+
+function sumModReports(report: AssetReport, count: (modReport: ModAssetReport) => number): number {
+    return Object.values(report.perMod).reduce((sum, modReport) => sum + count(modReport), 0)
+}
+
+/**
+ * Render the asset reference report as a collapsible section of the HTML report, grouped by mod
+ */
+export function getAssetReferencesHtml(report: AssetReport): string {
+    const mods = Object.entries(report.perMod).sort(([a], [b]) => a.localeCompare(b))
+    const missingHtml = mods
+        .filter(([, modReport]) => modReport.missing.length > 0)
+        .map(([modName, modReport]) => getAssetGroupHtml(modName, 'missing', modReport.missing.map(reference => `
+            <div class="issue-item">
+                <span class="field-name">${escapeHtml(reference.path)}</span>
+                <span class="issue-message">${escapeHtml(reference.fieldPath)}</span>
+                ${getSourceLocationHtml(reference)}
+            </div>
+        `)))
+        .join('')
+    const caseMismatchesHtml = mods
+        .filter(([, modReport]) => modReport.caseMismatches.length > 0)
+        .map(([modName, modReport]) => getAssetGroupHtml(modName, 'wrong case', modReport.caseMismatches.map(reference => `
+            <div class="issue-item">
+                <span class="field-name">${escapeHtml(reference.path)}</span>
+                <span class="issue-message">file is <b>${escapeHtml(reference.actualPath!)}</b></span>
+                ${getSourceLocationHtml(reference)}
+            </div>
+        `)))
+        .join('')
+    const unusedHtml = mods
+        .filter(([, modReport]) => modReport.unused.length > 0)
+        .map(([modName, modReport]) => getAssetGroupHtml(modName, 'unused', modReport.unused.map(path => `
+            <div class="issue-item">
+                <span class="field-name">${escapeHtml(path)}</span>
+            </div>
+        `)))
+        .join('')
+
+    const missing = sumModReports(report, modReport => modReport.missing.length)
+    const caseMismatches = sumModReports(report, modReport => modReport.caseMismatches.length)
+    const unused = sumModReports(report, modReport => modReport.unused.length)
+    return `
+        <div class="config-type">
+            <div class="config-type-header collapsed">
+                <span class="toggle-icon">▼</span>
+                <span>Asset References</span>
+                <span style="margin-left: auto; font-size: 0.85em; font-weight: normal; color: #999;">${missing} missing, ${caseMismatches} wrong case, ${unused} unused in ${mods.length} mods</span>
+            </div>
+            <div class="config-type-content collapsed">
+                ${report.modsWithoutFileTree.length > 0 ? `<p class="section-note">${report.modsWithoutFileTree.length} mods were cached without a file listing and are not checked; crawl them again to list their files.</p>` : ''}
+                <h3 class="section-subheader">Missing files</h3>
+                ${missingHtml || '<p class="section-note">Every referenced file exists.</p>'}
+                <h3 class="section-subheader">Case mismatches</h3>
+                ${caseMismatchesHtml || '<p class="section-note">No references that only resolve case-insensitively.</p>'}
+                <h3 class="section-subheader">Unused assets</h3>
+                ${unusedHtml || '<p class="section-note">Every media file is referenced by a config.</p>'}
+            </div>
+        </div>
+    `
+}
+
+/**
+ * Render a collapsible group of one mod's asset findings
+ */
+function getAssetGroupHtml(modName: string, label: string, itemsHtml: string[]): string {
+    const shownItems = itemsHtml.slice(0, MAX_ITEMS_PER_GROUP)
+    const hiddenCount = itemsHtml.length - shownItems.length
+    return `
+        <div class="field">
+            <div class="field-header collapsed">
+                <span class="field-toggle">▼</span>
+                ${getModBadgeHtml(modName, undefined)}
+                <span class="field-type">${escapeHtml(label)}</span>
+                <span style="margin-left: auto; font-size: 0.85em; font-weight: normal; color: #999;">${itemsHtml.length} file${itemsHtml.length !== 1 ? 's' : ''}</span>
+            </div>
+            <div class="field-values collapsed">
+                ${shownItems.join('')}
+                ${hiddenCount > 0 ? `<p class="section-note">…and ${hiddenCount} more</p>` : ''}
+            </div>
+        </div>
+    `
+}
@@ -1,71 +1,190 @@
 import { access, mkdir, readdir, readFile, writeFile } from "node:fs/promises"
-import type { AnalysisContext } from "./context.ts"
+import { parseConfigText } from "./config-parser.ts"
+import { createAnalysisContext, type AnalysisContext } from "./context.ts"
+import { CrawlStageError, recordCrawlError } from "./crawl-errors.ts"
+import { getConfigFormat, getManifestType, loadDiscoveryRules, selectConfigType, setConfig, type ConfigFormat, type ConfigTypeRule } from "./discovery.ts"
+import { getConfigPointerLines } from "./locations.ts"
 import JSON5 from "json5"
 
-export async function loadModsFromCache(ctx: AnalysisContext) {
+export async function loadModsFromCache(ctx: AnalysisContext, modCacheRootDir: string) {
     console.log('Loading mods from local cache...')
     
-    const modCacheRootDir = `${process.cwd()}/mod-cache`
     await mkdir(modCacheRootDir, { recursive: true })
 
-    // Loop through mod-cache directory and load all cached mod metadata files into in-memory caches
-    const modUniqueNames = await readdir(modCacheRootDir)
-    for (const modUniqueName of modUniqueNames) {
-        // Read the latest manifest file to get the version
-        const latestManifestPath = `${modCacheRootDir}/${modUniqueName}/manifest.json`
-        const manifest = await getLocalJsonContent(latestManifestPath)
-        ctx.manifestConfigs[modUniqueName] = manifest
-        const version = manifest.version || '0.0.0'
-        const modDir = `${modCacheRootDir}/${modUniqueName}/${version}`
-        await mkdir(modDir, { recursive: true })
-
-        // Load metadata files if they exist
-        await loadMetadataFile(modDir, 'title-screen.json', ctx.titleScreenConfigs, modUniqueName)
-        await loadMetadataFile(modDir, 'addon-manifest.json', ctx.addonConfigs, modUniqueName)
-        await loadMetadataFile(modDir, 'default-config.json', ctx.settingConfigs, modUniqueName)
-        
-        // Load planet and system configs
-        await loadLocalConfigDirectory(modDir, 'planets', modUniqueName, ctx.planetConfigs)
-        await loadLocalConfigDirectory(modDir, 'systems', modUniqueName, ctx.systemConfigs)
+    // Loop through mod-cache directory and load all cached mod metadata files into in-memory caches, skipping stray
+    // files such as .DS_Store
+    const modDirs = (await readdir(modCacheRootDir, { withFileTypes: true })).filter(entry => entry.isDirectory())
+    for (const { name: modUniqueName } of modDirs) {
+        try {
+            // Read the latest manifest file to get the version
+            const latestManifestPath = `${modCacheRootDir}/${modUniqueName}/manifest.json`
+            const { data: manifest } = await loadLocalConfigFile(ctx, modUniqueName, latestManifestPath, 'manifest.json', 'json')
+            ctx.manifestConfigs[modUniqueName] = manifest
+            const version = manifest.version || '0.0.0'
+            const modDir = `${modCacheRootDir}/${modUniqueName}/${version}`
+            await mkdir(modDir, { recursive: true })
+            await loadModVersionFiles(ctx, modDir, modUniqueName)
+        } catch (e) {
+            recordCrawlError(ctx, modUniqueName, e, 'cache', { path: 'manifest.json' })
+        }
+    }
+}
+
+/**
+ * Load every cached version of every mod, each into its own context under ctx.modVersions, for version history analysis
+ */
+export async function loadModVersionHistoryFromCache(ctx: AnalysisContext, modCacheRootDir: string) {
+    console.log('Loading all cached mod versions...')
+
+    await mkdir(modCacheRootDir, { recursive: true })
+
+    const modDirs = (await readdir(modCacheRootDir, { withFileTypes: true })).filter(entry => entry.isDirectory())
+    for (const { name: modUniqueName } of modDirs) {
+        ctx.modVersions[modUniqueName] = {}
+        try {
+            const versionDirs = await readdir(`${modCacheRootDir}/${modUniqueName}`, { withFileTypes: true })
+            for (const versionDir of versionDirs) {
+                if (!versionDir.isDirectory()) continue
+                const modDir = `${modCacheRootDir}/${modUniqueName}/${versionDir.name}`
+                const versionCtx = createAnalysisContext()
+                try {
+                    versionCtx.manifestConfigs[modUniqueName] = (await loadLocalConfigFile(versionCtx, modUniqueName, `${modDir}/manifest.json`, 'manifest.json', 'json')).data
+                } catch (e) {
+                    recordCrawlError(versionCtx, modUniqueName, e, 'cache', { path: 'manifest.json' })
+                }
+                await loadModVersionFiles(versionCtx, modDir, modUniqueName)
+                ctx.modVersions[modUniqueName][versionDir.name] = versionCtx
+
+                // Report the version's errors in the main ledger, marked with the version. Those of the latest version were
+                // already reported when it was loaded or fetched.
+                if (versionDir.name !== (ctx.manifestConfigs[modUniqueName]?.version || '0.0.0')) {
+                    ctx.crawlErrors.push(...versionCtx.crawlErrors.map(error => ({ ...error, ref: versionDir.name })))
+                }
+            }
+        } catch (e) {
+            recordCrawlError(ctx, modUniqueName, e, 'cache')
+        }
+    }
+}
+
+/**
+ * Load the cached config files of a single mod version into the in-memory stores
+ */
+async function loadModVersionFiles(ctx: AnalysisContext, modDir: string, modUniqueName: string) {
+    // Source metadata is only written alongside original file text, so line numbers are only meaningful when it exists
+    let lineStore: Record<string, Record<string, number>> | null = null
+    try {
+        ctx.modSources[modUniqueName] = await getLocalJsonContent(`${modDir}/source.json`)
+        lineStore = {}
+        ctx.configLines[modUniqueName] = lineStore
+        await loadConfigLines(`${modDir}/manifest.json`, 'manifest.json', lineStore, 'json')
+    } catch (e) {
+        if (!isMissingFileError(e)) {
+            recordCrawlError(ctx, modUniqueName, e, 'cache', { path: 'source.json' })
+        }
+    }
+
+    // The listing of every file in the mod, for resolving asset references; versions cached before it was recorded have none
+    try {
+        ctx.modFileTrees[modUniqueName] = await getLocalJsonContent(`${modDir}/tree.json`)
+    } catch (e) {
+        if (!isMissingFileError(e)) {
+            recordCrawlError(ctx, modUniqueName, e, 'cache', { path: 'tree.json' })
+        }
+    }
+
+    // Load the other config types declared in discovery.json: single files like title-screen.json if they exist,
+    // directories like planets/ including nested subdirectories, and files cached by their path from the mod root
+    const { configTypes } = await loadDiscoveryRules()
+    const manifestType = getManifestType(configTypes)
+    const modRootTypes: ConfigTypeRule[] = []
+    for (const configType of configTypes) {
+        if (configType === manifestType) {
+            continue
+        }
+        if (configType.file) {
+            await loadMetadataFile(ctx, modDir, configType, modUniqueName, lineStore)
+        } else if (configType.directory) {
+            await loadLocalConfigDirectory(ctx, modDir, configType, modUniqueName, lineStore)
+        } else {
+            modRootTypes.push(configType)
+        }
+    }
+    if (modRootTypes.length > 0) {
+        // Files of the other types are wherever the mod keeps them, e.g. dialogue XML in planets/text/, so scan the whole
+        // version directory for anything the file and directory types did not already load
+        const isLoadedByLayout = (relativePath: string) => {
+            const lowerPath = relativePath.toLowerCase()
+            return lowerPath === 'source.json' || lowerPath === 'tree.json' || configTypes.some(configType =>
+                configType.file?.toLowerCase() === lowerPath ||
+                (configType.directory && lowerPath.startsWith(`${configType.directory.toLowerCase()}/`) && lowerPath.endsWith(`.${getConfigFormat(configType)}`))
+            )
+        }
+        await loadConfigFilesRecursively(ctx, modDir, '', modUniqueName, modRootTypes, lineStore, isLoadedByLayout)
     }
 }
 
 /**
- * Load config files from a specific directory on local file system, including nested subdirectories
+ * Load config files from a config type's directory on local file system, including nested subdirectories
  */
 async function loadLocalConfigDirectory(
+    ctx: AnalysisContext,
     modDir: string,
-    directoryName: string,
+    configType: ConfigTypeRule,
     modUniqueName: string,
-    configStore: Record<string, Record<string, any>>
+    lineStore: Record<string, Record<string, number>> | null
 ) {
-    configStore[modUniqueName] = {}
+    const directoryName = configType.directory!
     try {
-        const configDir = `${modDir}/${directoryName}`
-        await loadConfigFilesRecursively(configDir, directoryName, modUniqueName, configStore)
-    } catch {}
+        await loadConfigFilesRecursively(ctx, `${modDir}/${directoryName}`, directoryName, modUniqueName, [configType], lineStore, () => false)
+    } catch (e) {
+        // Most mods have no planets or systems directory at all
+        if (!isMissingFileError(e)) {
+            recordCrawlError(ctx, modUniqueName, e, 'cache', { path: directoryName })
+        }
+    }
 }
 
 /**
- * Recursively scan a directory and load all JSON files, preserving directory structure
+ * Recursively scan a directory and load the files of the given config types, preserving directory structure.
+ * Each file is loaded as the first type with its extension that accepts it (see selectConfigType).
  */
 async function loadConfigFilesRecursively(
+    ctx: AnalysisContext,
     dirPath: string,
-    relativeFrom: string,
+    relativeDir: string,
     modUniqueName: string,
-    configStore: Record<string, Record<string, any>>
+    configTypes: ConfigTypeRule[],
+    lineStore: Record<string, Record<string, number>> | null,
+    skip: (relativePath: string) => boolean
 ) {
     const files = await readdir(dirPath, { withFileTypes: true })
     for (const file of files) {
         const fullPath = `${dirPath}/${file.name}`
+        // Config File Path of the file, e.g. planets/Moons/Foo.json
+        const relativePath = relativeDir ? `${relativeDir}/${file.name}` : file.name
         if (file.isDirectory()) {
             // Recursively scan subdirectories
-            await loadConfigFilesRecursively(fullPath, relativeFrom, modUniqueName, configStore)
-        } else if (file.isFile() && file.name.toLowerCase().endsWith('.json')) {
-            // Load JSON files and compute relative path from the config type directory
-            const content = await getLocalJsonContent(fullPath)
-            const relativePath = getRelativePathFrom(fullPath.replace(/\\/g, '/'), relativeFrom)
-            configStore[modUniqueName][relativePath] = content
+            await loadConfigFilesRecursively(ctx, fullPath, relativePath, modUniqueName, configTypes, lineStore, skip)
+            continue
+        }
+        const candidates = configTypes.filter(configType => file.name.toLowerCase().endsWith(`.${getConfigFormat(configType)}`))
+        if (file.isFile() && candidates.length > 0 && !skip(relativePath)) {
+            const format = getConfigFormat(candidates[0])
+            try {
+                const { data, rootElement } = await loadLocalConfigFile(ctx, modUniqueName, fullPath, relativePath, format)
+                const configType = selectConfigType(candidates, rootElement)
+                if (!configType) {
+                    continue
+                }
+                setConfig(ctx, configType, modUniqueName, relativePath, data)
+                if (lineStore) {
+                    await loadConfigLines(fullPath, relativePath, lineStore, format)
+                }
+            } catch (e) {
+                // One broken file should not hide the rest of the mod's configs
+                recordCrawlError(ctx, modUniqueName, e, 'cache', { path: relativePath })
+            }
         }
     }
 }
@@ -74,34 +193,70 @@ async function loadConfigFilesRecursively(
  * Load metadata file from cache into in-memory store if it exists
  */
 async function loadMetadataFile(
+    ctx: AnalysisContext,
     modDir: string,
-    fileName: string,
-    inMemoryStore: Record<string, any>,
-    modUniqueName: string
+    configType: ConfigTypeRule,
+    modUniqueName: string,
+    lineStore: Record<string, Record<string, number>> | null
 ) {
+    const fileName = configType.file!
     try {
         const filePath = `${modDir}/${fileName}`
-        const content = await getLocalJsonContent(filePath)
-        inMemoryStore[modUniqueName] = content
-    } catch {}
+        const format = getConfigFormat(configType)
+        const { data, rootElement } = await loadLocalConfigFile(ctx, modUniqueName, filePath, fileName, format)
+        if (selectConfigType([configType], rootElement)) {
+            setConfig(ctx, configType, modUniqueName, fileName, data)
+        }
+        if (lineStore) {
+            await loadConfigLines(filePath, fileName, lineStore, format)
+        }
+    } catch (e) {
+        // Metadata files are optional, so only report the ones that exist but could not be loaded
+        if (!isMissingFileError(e)) {
+            recordCrawlError(ctx, modUniqueName, e, 'cache', { path: fileName })
+        }
+    }
 }
 
-/** Load a JSON file from the local file system and parse it using JSON5 */
-async function getLocalJsonContent(filePath: string) {
+/** Map JSON pointers to line numbers for a cached file holding the original text from the repo */
+async function loadConfigLines(filePath: string, configFilePath: string, lineStore: Record<string, Record<string, number>>, format: ConfigFormat) {
     const data = await readFile(filePath, 'utf-8')
-    return JSON5.parse(data)
+    lineStore[configFilePath] = getConfigPointerLines(data, format)
 }
 
 /**
- * Extract the relative path starting from a specific directory name
+ * Load a cached config file, which may hold the broken original text of a config that failed to parse when crawled.
+ * Recovered configs are recorded as crawl errors but still returned.
  */
-function getRelativePathFrom(fullPath: string, directoryName: string): string {
-    const normalized = fullPath.replace(/\\/g, '/')
-    const lowerPath = normalized.toLowerCase()
-    const lowerDir = directoryName.toLowerCase()
-    const index = lowerPath.indexOf(lowerDir)
-    if (index === -1) {
-        throw new Error(`Directory '${directoryName}' not found in path '${fullPath}'`)
+async function loadLocalConfigFile(ctx: AnalysisContext, modUniqueName: string, filePath: string, configFilePath: string, format: ConfigFormat) {
+    const data = await readFile(filePath, 'utf-8')
+    const parsed = parseConfigText(data, configFilePath, format)
+    if (parsed.recoveredError) {
+        recordCrawlError(ctx, modUniqueName, parsed.recoveredError, 'parse')
     }
-    return normalized.substring(index)
+    return parsed
+}
+
+/** Load a JSON file from the local file system and parse it using JSON5 */
+async function getLocalJsonContent(filePath: string) {
+    const data = await readFile(filePath, 'utf-8')
+    try {
+        return JSON5.parse(data)
+    } catch (e) {
+        throw new CrawlStageError('parse', `Failed to parse cached JSON content: ${e}`)
+    }
+}
+
+/** Check if a local file or directory exists */
+export async function exists(path: string): Promise<boolean> {
+    try {
+        await access(path)
+        return true
+    } catch {
+        return false
+    }
+}
+
+function isMissingFileError(e: unknown): boolean {
+    return (e as NodeJS.ErrnoException)?.code === 'ENOENT'
 }
@@ -0,0 +1,53 @@
+import type { RateLimit } from "./mod-source.ts"
+
+/**
+ * Run a worker over every item with at most `concurrency` items in flight at once.
+ * Items are started in order; once a worker throws, no new items are started and the first error is rethrown.
+ */
+export async function forEachConcurrently<T>(
+    items: T[],
+    concurrency: number,
+    worker: (item: T, index: number) => Promise<void>
+) {
+    let nextIndex = 0
+    let failed = false
+    const runWorker = async () => {
+        while (!failed && nextIndex < items.length) {
+            const index = nextIndex++
+            try {
+                await worker(items[index], index)
+            } catch (e) {
+                failed = true
+                throw e
+            }
+        }
+    }
+    const workerCount = Math.max(1, Math.min(concurrency, items.length))
+    await Promise.all(Array.from({ length: workerCount }, runWorker))
+}
+
+/**
+ * Track how many of a crawl's mods are done and log progress with the remaining request quota and an ETA
+ */
+export function createCrawlProgress(total: number, getRateLimit: () => RateLimit | null) {
+    const startedAt = Date.now()
+    let completed = 0
+    return {
+        complete() {
+            completed++
+            const elapsed = Date.now() - startedAt
+            const eta = completed < total ? formatDuration(elapsed / completed * (total - completed)) : 'done'
+            const rateLimit = getRateLimit()
+            const quota = rateLimit ? `, ${rateLimit.remaining} requests remaining until ${new Date(rateLimit.resetAt).toLocaleTimeString()}` : ''
+            console.log(`Progress: ${completed}/${total} mods${quota}, ETA ${eta}`)
+        },
+    }
+}
+
+function formatDuration(ms: number): string {
+    const seconds = Math.round(ms / 1000)
+    if (seconds < 60) return `${seconds}s`
+    const minutes = Math.floor(seconds / 60)
+    if (minutes < 60) return `${minutes}m ${seconds % 60}s`
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
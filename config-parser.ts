@@ -0,0 +1,152 @@
+import JSON5 from "json5"
+import { CrawlStageError } from "./crawl-errors.ts"
+import type { ConfigFormat } from "./discovery.ts"
+import { getXmlFieldTree, parseXml } from "./xml.ts"
+
+/** Try to recover configs with small syntax errors instead of dropping them (opt-in, since recovered data is a guess) */
+const RECOVER_CONFIGS = process.env.RECOVER_CONFIGS === 'true'
+
+/** Edits tried before giving up on a broken config; files needing more than a few fixes are not "mostly valid" */
+const MAX_RECOVERY_EDITS = 5
+
+/** Lines of context shown above the offending line in error snippets */
+const SNIPPET_CONTEXT_LINES = 2
+
+export interface JsonSyntaxError {
+    line: number
+    column: number
+    snippet: string // the offending line and a little context, with a caret under the error
+}
+
+export interface ParsedConfig {
+    data: any
+    recoveredError: CrawlStageError | null // the original syntax error, when the data was only parsed after recovery
+    rootElement: string | null // name of the root element of XML configs
+}
+
+/**
+ * Parse a config with JSON5, the forgiving superset mods use for comments and trailing commas, or as XML.
+ * Throws a 'parse' CrawlStageError with the error location and a snippet when the text cannot be parsed (or recovered).
+ */
+export function parseConfigText(text: string, path: string, format: ConfigFormat = 'json'): ParsedConfig {
+    if (format === 'xml') {
+        return parseXmlConfigText(text, path)
+    }
+    try {
+        return { data: JSON5.parse(text), recoveredError: null, rootElement: null }
+    } catch (e) {
+        const syntax = getSyntaxError(text, e)
+        const message = `Failed to parse ${path}: ${getErrorMessage(e)}`
+        if (RECOVER_CONFIGS) {
+            const data = recoverConfigText(text)
+            if (data !== undefined) {
+                return { data, recoveredError: new CrawlStageError('parse', message, path, { ...(syntax ? { syntax } : {}), recovered: true }), rootElement: null }
+            }
+        }
+        throw new CrawlStageError('parse', message, path, syntax ? { syntax } : {})
+    }
+}
+
+/**
+ * Parse an XML config into a field tree. XML is not recovered, since a guess at where a tag was meant to close
+ * would change the tree rather than patch a typo.
+ */
+function parseXmlConfigText(text: string, path: string): ParsedConfig {
+    try {
+        const root = parseXml(text)
+        return { data: getXmlFieldTree(root).data, recoveredError: null, rootElement: root.name }
+    } catch (e) {
+        const syntax = getSyntaxError(text, e)
+        throw new CrawlStageError('parse', `Failed to parse ${path}: ${getErrorMessage(e)}`, path, syntax ? { syntax } : {})
+    }
+}
+
+/**
+ * Greedily apply small edits at the error position until the text parses, keeping an edit only if it moves the
+ * error further into the file. Returns undefined if the text could not be recovered within a few edits.
+ */
+export function recoverConfigText(text: string): any | undefined {
+    let current = text
+    let errorOffset = getErrorOffset(current)
+    for (let edit = 0; edit < MAX_RECOVERY_EDITS && errorOffset !== null; edit++) {
+        let best: { text: string, errorOffset: number | null } | null = null
+        for (const candidate of getRecoveryCandidates(current, errorOffset)) {
+            const candidateOffset = getErrorOffset(candidate)
+            if (candidateOffset === null) {
+                return JSON5.parse(candidate)
+            }
+            if (candidateOffset > errorOffset && (!best || candidateOffset > best.errorOffset!)) {
+                best = { text: candidate, errorOffset: candidateOffset }
+            }
+        }
+        if (!best) {
+            return undefined
+        }
+        current = best.text
+        errorOffset = best.errorOffset
+    }
+    return undefined
+}
+
+/**
+ * Edits that fix the most common hand-editing mistakes at an error position
+ */
+function getRecoveryCandidates(text: string, offset: number): string[] {
+    const candidates = []
+    // Keys that JSON5 does not accept unquoted, e.g. ones containing '-' or spaces; the error points somewhere inside the key
+    const keyStart = Math.max(text.lastIndexOf('{', offset - 1), text.lastIndexOf(',', offset - 1)) + 1
+    const bareKey = /^(\s*)([^\s:'"{}[\],][^:'"{}[\],]*?)(\s*:)/.exec(text.substring(keyStart))
+    if (bareKey && keyStart + bareKey[0].length > offset) {
+        const nameStart = keyStart + bareKey[1].length
+        candidates.push(`${text.substring(0, nameStart)}"${bareKey[2]}"${text.substring(nameStart + bareKey[2].length)}`)
+    }
+    const before = text.substring(0, offset)
+    const after = text.substring(offset)
+    candidates.push(
+        `${before},${after}`, // missing comma between members or items
+        `${before}${after.substring(1)}`, // stray character, e.g. a doubled bracket or a trailing ';'
+    )
+    // A file cut off before its closing brackets
+    if (offset >= text.length) {
+        candidates.push(`${text}}`, `${text}]`)
+    }
+    return candidates
+}
+
+/** Offset of the first syntax error, or null if the text parses */
+function getErrorOffset(text: string): number | null {
+    try {
+        JSON5.parse(text)
+        return null
+    } catch (e) {
+        const syntax = e as { lineNumber?: number, columnNumber?: number }
+        if (!syntax.lineNumber || !syntax.columnNumber) {
+            return text.length
+        }
+        const lineStart = text.split('\n').slice(0, syntax.lineNumber - 1).reduce((sum, line) => sum + line.length + 1, 0)
+        return Math.min(lineStart + syntax.columnNumber - 1, text.length)
+    }
+}
+
+/**
+ * Get the location of a JSON5 or XML syntax error with a snippet of the surrounding text
+ */
+function getSyntaxError(text: string, error: unknown): JsonSyntaxError | null {
+    const { lineNumber: line, columnNumber: column } = error as { lineNumber?: number, columnNumber?: number }
+    if (!line || !column) {
+        return null
+    }
+    const lines = text.split('\n')
+    const firstLine = Math.max(1, line - SNIPPET_CONTEXT_LINES)
+    const gutterWidth = String(line).length
+    const snippetLines = []
+    for (let n = firstLine; n <= Math.min(line, lines.length); n++) {
+        snippetLines.push(`${String(n).padStart(gutterWidth)} | ${lines[n - 1].replace(/\r$/, '')}`)
+    }
+    snippetLines.push(`${' '.repeat(gutterWidth)} | ${' '.repeat(column - 1)}^`)
+    return { line, column, snippet: snippetLines.join('\n') }
+}
+
+function getErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error)
+}
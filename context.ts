@@ -1,4 +1,3 @@
-
 export interface AnalysisContext {
   manifestConfigs: Record<string, any> // Mod UniqueName -> manifest.json data
 
@@ -10,6 +9,52 @@ export interface AnalysisContext {
   planetConfigs: Record<string, Record<string, any>> // Mod UniqueName -> Config File Path -> planet json data
 
   systemConfigs: Record<string, Record<string, any>> // Mod UniqueName -> Config File Path -> system json data
+
+  translationConfigs: Record<string, Record<string, any>> // Mod UniqueName -> Config File Path -> translations/*.json data
+
+  // XML configs, converted into field trees (see xml.ts); their Config File Paths are paths from the mod root
+  dialogueConfigs: Record<string, Record<string, any>> // Mod UniqueName -> Config File Path -> <DialogueTree> field tree
+  nomaiTextConfigs: Record<string, Record<string, any>> // Mod UniqueName -> Config File Path -> <NomaiObject> field tree
+  shipLogConfigs: Record<string, Record<string, any>> // Mod UniqueName -> Config File Path -> <AstroObjectEntry> field tree
+
+  extraConfigs: Record<string, Record<string, Record<string, any>>> // Config Type -> Mod UniqueName -> Config File Path -> data, for config types added in discovery.json without a store of their own
+
+  modSources: Record<string, ModSourceInfo> // Mod UniqueName -> where its cached configs were fetched from
+  configLines: Record<string, Record<string, Record<string, number>>> // Mod UniqueName -> Config File Path -> JSON pointer -> line number in the original file
+  modFileTrees: Record<string, string[]> // Mod UniqueName -> every file path below the mod root, persisted as tree.json; used to resolve asset references
+
+  modVersions: Record<string, Record<string, AnalysisContext>> // Mod UniqueName -> Version -> context holding only that version's configs (opt-in, see LOAD_ALL_VERSIONS)
+
+  crawlErrors: CrawlError[] // Everything that went wrong while fetching or loading mods, written to analysis/crawl-errors.json
+}
+
+/** Source metadata for a cached mod version, persisted as source.json next to its configs */
+export interface ModSourceInfo {
+  owner: string
+  repo: string
+  branch?: string // Absent for release zips
+  tag?: string // Git tag for versions backfilled from past releases
+  commitSha?: string // Commit the configs were fetched from, used to build permalinks; absent for release zips and local mirrors
+  downloadUrl?: string // Release zip the configs were extracted from (MOD_SOURCE=release)
+  fetchedAt: string
+  files: Record<string, string> // Config File Path (e.g. planets/Foo.json, manifest.json) -> path in the repo, or in the release zip
+  blobs?: Record<string, string> // Config File Path -> git blob SHA, used to notice files that changed without a version bump
+}
+
+/** Where in the crawl an error happened: listing the repo tree, fetching file contents, parsing them, reading/writing the local cache, or loading the vendored schemas */
+export type CrawlStage = 'tree' | 'content' | 'parse' | 'cache' | 'schema'
+
+export interface CrawlError {
+  modName?: string // unset for errors that concern every mod, such as a missing schema
+  repo?: string // owner/repo
+  ref?: string // git tag, for errors while backfilling past versions, or the version, for errors while loading past versions from the cache
+  path?: string // path in the repo, release zip or cache
+  stage: CrawlStage
+  message: string
+  line?: number // location of a parse error
+  column?: number
+  snippet?: string // the lines around a parse error, with a caret under it
+  recovered?: boolean // the config was still analyzed after recovering from a parse error (RECOVER_CONFIGS)
 }
 
 export function createAnalysisContext(): AnalysisContext {
@@ -20,5 +65,58 @@ export function createAnalysisContext(): AnalysisContext {
     settingConfigs: {},
     planetConfigs: {},
     systemConfigs: {},
+    translationConfigs: {},
+    dialogueConfigs: {},
+    nomaiTextConfigs: {},
+    shipLogConfigs: {},
+    extraConfigs: {},
+    modSources: {},
+    configLines: {},
+    modFileTrees: {},
+    modVersions: {},
+    crawlErrors: [],
+  }
+}
+
+/** A single config file from any of the context's config stores */
+export interface ConfigFileEntry {
+  configType: string // e.g. 'manifest', 'planets'
+  modName: string
+  filePath: string // Config File Path, e.g. manifest.json or planets/Foo.json
+  data: any
+}
+
+/**
+ * Flatten all config stores into a list of config files, in a stable order
+ */
+export function listConfigFiles(ctx: AnalysisContext): ConfigFileEntry[] {
+  const entries: ConfigFileEntry[] = []
+  const singleStores: [string, string, Record<string, any>][] = [
+    ['manifest', 'manifest.json', ctx.manifestConfigs],
+    ['title-screen', 'title-screen.json', ctx.titleScreenConfigs],
+    ['addon-manifest', 'addon-manifest.json', ctx.addonConfigs],
+    ['default-config', 'default-config.json', ctx.settingConfigs],
+  ]
+  for (const [configType, filePath, store] of singleStores) {
+    for (const [modName, data] of Object.entries(store)) {
+      if (data) entries.push({ configType, modName, filePath, data })
+    }
+  }
+  const multiStores: [string, Record<string, Record<string, any>>][] = [
+    ['planets', ctx.planetConfigs],
+    ['systems', ctx.systemConfigs],
+    ['translations', ctx.translationConfigs],
+    ['dialogue', ctx.dialogueConfigs],
+    ['nomai-text', ctx.nomaiTextConfigs],
+    ['ship-logs', ctx.shipLogConfigs],
+    ...Object.entries(ctx.extraConfigs),
+  ]
+  for (const [configType, store] of multiStores) {
+    for (const [modName, files] of Object.entries(store)) {
+      for (const [filePath, data] of Object.entries(files ?? {})) {
+        if (data) entries.push({ configType, modName, filePath, data })
+      }
+    }
   }
+  return entries
 }
@@ -0,0 +1,243 @@
+import { mkdir, writeFile } from "node:fs/promises"
+import { ARRAY_ITEMS_SEGMENT, joinFieldPath, splitFieldPath } from "./field-paths.ts"
+import { escapeHtml } from "./html.ts"
+
+/** Features are field paths cut to this many keys, e.g. Atmosphere.clouds for Atmosphere.clouds.texturePath */
+const MAX_FEATURE_DEPTH = 2
+
+/** Files a feature must be used in to be compared with others; rarer features give meaningless ratios */
+const MIN_FEATURE_FILES = 3
+
+/** Number of most used features shown in each config type's heatmap */
+const HEATMAP_FEATURE_COUNT = 20
+
+/** Maximum number of pairs listed per config type and list in the HTML report; the JSON output is complete */
+const MAX_PAIRS_PER_LIST = 50
+
+/** Confidence above which one feature is taken to come bundled with another */
+const BUNDLED_MIN_CONFIDENCE = 0.9
+
+/** Lift below which two features are taken to be (almost) never combined */
+const EXCLUSIVE_MAX_LIFT = 0.25
+
+/** Files two features would be expected to share if they were independent before being rarely combined is notable */
+const EXCLUSIVE_MIN_EXPECTED_FILES = 2
+
+export interface FieldPair {
+    fields: [string, string] // the more used feature first
+    files: number // number of files using both
+    support: number // share of all files using both
+    confidence: [number, number] // share of the files using the first feature that also use the second, and the other way around
+    lift: number // how much more often the two are used together than if they were independent; 1 is independent, 0 is never together
+}
+
+export interface CooccurrenceReport {
+    fileCount: number
+    features: Record<string, number> // feature -> number of files using it, most used first
+    pairs: FieldPair[] // pairs of features, neither nested in the other, that share a file or would be expected to share a few, by lift
+}
+
+/**
+ * Compute support, confidence and lift for the pairs of features in the config files of each type, writing
+ * analysis/{type}/co-occurrence.json. Pairs that share no file are only kept when they would be expected to share
+ * EXCLUSIVE_MIN_EXPECTED_FILES if they were independent, since the rest tell nothing and make up most pairs.
+ * fileFieldPaths holds the field paths extracted from each file.
+ */
+export async function analyzeFieldCooccurrence(
+    fileFieldPaths: Record<string, string[][]>,
+    analysisOutputDir: string
+): Promise<Record<string, CooccurrenceReport>> {
+    console.log('Computing field co-occurrence...')
+    const report: Record<string, CooccurrenceReport> = {}
+
+    for (const [configTypeName, files] of Object.entries(fileFieldPaths)) {
+        const fileFeatures = files.map(getFileFeatures)
+        const featureFiles = new Map<string, number>()
+        for (const features of fileFeatures) {
+            for (const feature of features) {
+                featureFiles.set(feature, (featureFiles.get(feature) ?? 0) + 1)
+            }
+        }
+        const features = Array.from(featureFiles)
+            .filter(([, count]) => count >= MIN_FEATURE_FILES)
+            .sort(([a, aCount], [b, bCount]) => bCount - aCount || a.localeCompare(b))
+            .map(([feature]) => feature)
+
+        // Pair key -> number of files using both features of the pair
+        const pairFiles = new Map<string, number>()
+        const featureIndexes = new Map(features.map((feature, index) => [feature, index]))
+        for (const fileFeatureSet of fileFeatures) {
+            const indexes = Array.from(fileFeatureSet).flatMap(feature => featureIndexes.has(feature) ? [featureIndexes.get(feature)!] : []).sort((a, b) => a - b)
+            for (let i = 0; i < indexes.length; i++) {
+                for (let j = i + 1; j < indexes.length; j++) {
+                    const key = `${indexes[i]},${indexes[j]}`
+                    pairFiles.set(key, (pairFiles.get(key) ?? 0) + 1)
+                }
+            }
+        }
+
+        const fileCount = files.length
+        const pairs: FieldPair[] = []
+        for (let i = 0; i < features.length; i++) {
+            for (let j = i + 1; j < features.length; j++) {
+                const [a, b] = [features[i], features[j]]
+                if (isNestedFeature(a, b) || isNestedFeature(b, a)) continue
+                const sharedFiles = pairFiles.get(`${i},${j}`) ?? 0
+                const aFiles = featureFiles.get(a)!
+                const bFiles = featureFiles.get(b)!
+                if (sharedFiles === 0 && aFiles * bFiles / fileCount < EXCLUSIVE_MIN_EXPECTED_FILES) continue
+                pairs.push({
+                    fields: [a, b],
+                    files: sharedFiles,
+                    support: sharedFiles / fileCount,
+                    confidence: [sharedFiles / aFiles, sharedFiles / bFiles],
+                    lift: sharedFiles * fileCount / (aFiles * bFiles),
+                })
+            }
+        }
+        pairs.sort((a, b) => b.lift - a.lift || b.files - a.files || a.fields.join().localeCompare(b.fields.join()))
+
+        const cooccurrence: CooccurrenceReport = {
+            fileCount,
+            features: Object.fromEntries(features.map(feature => [feature, featureFiles.get(feature)!])),
+            pairs,
+        }
+        report[configTypeName] = cooccurrence
+
+        const typeOutputDir = `${analysisOutputDir}/${configTypeName}`
+        await mkdir(typeOutputDir, { recursive: true })
+        await writeFile(`${typeOutputDir}/co-occurrence.json`, JSON.stringify(cooccurrence, null, 2))
+    }
+
+    return report
+}
+
+/**
+ * Get the features a file uses: each of its field paths and their ancestors, up to MAX_FEATURE_DEPTH keys,
+ * with array items counted as the array itself, e.g. Props.details[].path gives Props and Props.details
+ */
+function getFileFeatures(fieldPaths: string[]): Set<string> {
+    const features = new Set<string>()
+    for (const fieldPath of fieldPaths) {
+        const keys = splitFieldPath(fieldPath).filter(segment => segment !== ARRAY_ITEMS_SEGMENT)
+        if (keys[0] === '$schema') continue
+        for (let depth = 1; depth <= Math.min(MAX_FEATURE_DEPTH, keys.length); depth++) {
+            features.add(joinFieldPath(keys.slice(0, depth)))
+        }
+    }
+    return features
+}
+
+/** Whether a feature is nested in another, and so always used along with it */
+function isNestedFeature(feature: string, ancestor: string): boolean {
+    return feature.startsWith(`${ancestor}.`)
+}
+
+/**
+ * Render a heatmap of the most used features and the pairs that come bundled or are rarely combined, per config type,
+ * as a collapsible section of the HTML report
+ */
+export function getFieldCooccurrenceHtml(report: Record<string, CooccurrenceReport>): string {
+    const types = Object.entries(report)
+        .filter(([, cooccurrence]) => cooccurrence.pairs.length > 0)
+        .sort(([a], [b]) => a.localeCompare(b))
+    const typesHtml = types.map(([configTypeName, cooccurrence]) => {
+        const bundled = cooccurrence.pairs
+            .filter(pair => pair.lift > 1 && Math.max(...pair.confidence) >= BUNDLED_MIN_CONFIDENCE)
+            .sort((a, b) => Math.max(...b.confidence) - Math.max(...a.confidence) || b.files - a.files)
+        const exclusive = cooccurrence.pairs
+            .filter(pair => pair.lift < EXCLUSIVE_MAX_LIFT && getExpectedFiles(cooccurrence, pair) >= EXCLUSIVE_MIN_EXPECTED_FILES)
+            .sort((a, b) => getExpectedFiles(cooccurrence, b) - getExpectedFiles(cooccurrence, a))
+        return `
+            <div class="field">
+                <div class="field-header collapsed">
+                    <span class="field-toggle">▼</span>
+                    <span class="field-name">${escapeHtml(configTypeName)}</span>
+                    <span style="margin-left: auto; font-size: 0.85em; font-weight: normal; color: #999;">${Object.keys(cooccurrence.features).length} features in ${cooccurrence.fileCount} files</span>
+                </div>
+                <div class="field-values collapsed">
+                    ${getCooccurrenceHeatmapHtml(cooccurrence)}
+                    <h3 class="section-subheader">Usually together</h3>
+                    ${bundled.length > 0 ? getPairListHtml(bundled, pair => {
+                        const [from, to] = pair.confidence[0] >= pair.confidence[1] ? [0, 1] : [1, 0]
+                        return `${Math.round(pair.confidence[from] * 100)}% of the ${cooccurrence.features[pair.fields[from]]} files with <b>${escapeHtml(pair.fields[from])}</b> also have <b>${escapeHtml(pair.fields[to])}</b>`
+                    }) : '<p class="section-note">No features that almost always come with another.</p>'}
+                    <h3 class="section-subheader">Rarely together</h3>
+                    ${exclusive.length > 0 ? getPairListHtml(exclusive, pair =>
+                        `<b>${escapeHtml(pair.fields[0])}</b> and <b>${escapeHtml(pair.fields[1])}</b> share ${pair.files} file${pair.files !== 1 ? 's' : ''}, ${formatRatio(getExpectedFiles(cooccurrence, pair))} expected if they were independent`
+                    ) : '<p class="section-note">No features that are combined much less often than expected.</p>'}
+                </div>
+            </div>
+        `
+    }).join('')
+
+    return `
+        <div class="config-type">
+            <div class="config-type-header collapsed">
+                <span class="toggle-icon">▼</span>
+                <span>Feature Co-occurrence</span>
+                <span style="margin-left: auto; font-size: 0.85em; font-weight: normal; color: #999;">${types.length} config types</span>
+            </div>
+            <div class="config-type-content collapsed">
+                <p class="section-note">Features are fields up to ${MAX_FEATURE_DEPTH} keys deep used in at least ${MIN_FEATURE_FILES} files. Lift is how much more often two features share a file than if they were independent.</p>
+                ${typesHtml || '<p class="section-note">Not enough files to compare features.</p>'}
+            </div>
+        </div>
+    `
+}
+
+/**
+ * Render the lift between the most used features as a table, purple where they are used together more often than
+ * independent features would be and red where less often
+ */
+function getCooccurrenceHeatmapHtml(cooccurrence: CooccurrenceReport): string {
+    const features = Object.keys(cooccurrence.features).slice(0, HEATMAP_FEATURE_COUNT)
+    const pairsByKey = new Map(cooccurrence.pairs.map(pair => [pair.fields.join('\n'), pair]))
+    const getCellHtml = (a: string, b: string) => {
+        const pair = pairsByKey.get(`${a}\n${b}`) ?? pairsByKey.get(`${b}\n${a}`)
+        if (!pair) {
+            return '<td class="cooccurrence-cell"></td>'
+        }
+        // Lift is compared on a log scale, so twice and half as often are equally strong
+        const strength = Math.min(1, Math.abs(Math.log2(Math.max(pair.lift, 1 / 16))) / 4)
+        const color = pair.lift >= 1 ? `rgba(167, 139, 250, ${formatRatio(strength)})` : `rgba(248, 113, 113, ${formatRatio(strength)})`
+        return `<td class="cooccurrence-cell" style="background-color: ${color};" title="${escapeHtml(a)} + ${escapeHtml(b)}: ${pair.files} files, lift ${formatRatio(pair.lift)}"></td>`
+    }
+    return `
+        <table class="cooccurrence-heatmap">
+            <thead>
+                <tr><th></th>${features.map((feature, column) => `<th title="${escapeHtml(feature)}">${column + 1}</th>`).join('')}</tr>
+            </thead>
+            <tbody>
+                ${features.map((a, row) => `
+                    <tr>
+                        <th title="${cooccurrence.features[a]} files">${row + 1}. ${escapeHtml(a)}</th>
+                        ${features.map((b, column) => column === row ? '<td class="cooccurrence-cell self"></td>' : getCellHtml(a, b)).join('')}
+                    </tr>
+                `).join('')}
+            </tbody>
+        </table>
+    `
+}
+
+function getPairListHtml(pairs: FieldPair[], getMessage: (pair: FieldPair) => string): string {
+    const shownPairs = pairs.slice(0, MAX_PAIRS_PER_LIST)
+    return `
+        ${shownPairs.map(pair => `
+            <div class="issue-item">
+                <span class="issue-message">${getMessage(pair)}</span>
+                <span class="value-types">lift ${formatRatio(pair.lift)}</span>
+            </div>
+        `).join('')}
+        ${pairs.length > shownPairs.length ? `<p class="section-note">…and ${pairs.length - shownPairs.length} more</p>` : ''}
+    `
+}
+
+/** Number of files two features would share if they were used independently of each other */
+function getExpectedFiles(cooccurrence: CooccurrenceReport, pair: FieldPair): number {
+    return cooccurrence.features[pair.fields[0]] * cooccurrence.features[pair.fields[1]] / cooccurrence.fileCount
+}
+
+function formatRatio(value: number): string {
+    return String(Math.round(value * 100) / 100)
+}
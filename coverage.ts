@@ -0,0 +1,110 @@
+import { mkdir, writeFile } from "node:fs/promises"
+import type { PerFieldSummary } from "./analysis.ts"
+import { joinFieldPath, splitFieldPath } from "./field-paths.ts"
+import { escapeHtml } from "./html.ts"
+import { listSchemaFieldPaths, loadSchema, resolveSchemaFieldPath } from "./schema.ts"
+
+export interface SchemaCoverageEntry {
+    path: string // declared field path, with '*' for dictionary keys
+    description?: string
+    modCount: number // number of mods using this field or any field below it
+    mods: string[]
+}
+
+export interface SchemaCoverage {
+    declaredFields: number
+    usedFields: number
+    fields: SchemaCoverageEntry[]
+}
+
+/**
+ * Cross-reference every field path declared in the schemas with the field paths found in the per-field summaries,
+ * writing analysis/{type}/schema-coverage.json for each config type that has a vendored schema
+ */
+export async function analyzeSchemaCoverage(
+    perFieldSummaries: Record<string, Record<string, PerFieldSummary>>,
+    analysisOutputDir: string
+): Promise<Record<string, SchemaCoverage>> {
+    console.log('Computing schema coverage...')
+    const report: Record<string, SchemaCoverage> = {}
+
+    for (const [configTypeName, fields] of Object.entries(perFieldSummaries)) {
+        const schema = await loadSchema(configTypeName)
+        if (!schema) continue
+
+        // A field counts as used by a mod when the mod sets it or anything nested below it
+        const modsByPath = new Map<string, Set<string>>()
+        for (const [fieldPath, summary] of Object.entries(fields)) {
+            const schemaPath = resolveSchemaFieldPath(schema, fieldPath)
+            if (!schemaPath) continue
+            const segments = splitFieldPath(schemaPath)
+            for (let i = 1; i <= segments.length; i++) {
+                const ancestorPath = joinFieldPath(segments.slice(0, i))
+                if (!modsByPath.has(ancestorPath)) {
+                    modsByPath.set(ancestorPath, new Set())
+                }
+                for (const mod of summary.mods) {
+                    modsByPath.get(ancestorPath)!.add(mod.modName)
+                }
+            }
+        }
+
+        const coverageFields: SchemaCoverageEntry[] = listSchemaFieldPaths(schema).map(({ path, description }) => {
+            const mods = Array.from(modsByPath.get(path) ?? []).sort()
+            return { path, ...(description ? { description } : {}), modCount: mods.length, mods }
+        })
+        coverageFields.sort((a, b) => a.path.localeCompare(b.path))
+
+        const coverage: SchemaCoverage = {
+            declaredFields: coverageFields.length,
+            usedFields: coverageFields.filter(field => field.modCount > 0).length,
+            fields: coverageFields,
+        }
+        report[configTypeName] = coverage
+
+        const typeOutputDir = `${analysisOutputDir}/${configTypeName}`
+        await mkdir(typeOutputDir, { recursive: true })
+        await writeFile(`${typeOutputDir}/schema-coverage.json`, JSON.stringify(coverage, null, 2))
+        console.log(`  ${configTypeName}: ${coverage.usedFields} of ${coverage.declaredFields} declared fields used`)
+    }
+
+    return report
+}
+
+/**
+ * Render the schema coverage tables as a collapsible section of the HTML report
+ */
+export function getSchemaCoverageHtml(report: Record<string, SchemaCoverage>): string {
+    const typesHtml = Object.entries(report)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([configTypeName, coverage]) => `
+            <h3 class="section-subheader">${escapeHtml(configTypeName)}: ${coverage.usedFields} of ${coverage.declaredFields} fields used</h3>
+            <table class="coverage-table">
+                <thead>
+                    <tr><th>Field</th><th>Mods</th></tr>
+                </thead>
+                <tbody>
+                    ${coverage.fields.map(field => `
+                        <tr class="${field.modCount === 0 ? 'unused' : ''}"${field.description ? ` title="${escapeHtml(field.description)}"` : ''}>
+                            <td>${escapeHtml(field.path)}</td>
+                            <td>${field.modCount === 0 ? 'never used' : `<span title="${escapeHtml(field.mods.join(', '))}">${field.modCount}</span>`}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        `)
+        .join('')
+
+    return `
+        <div class="config-type">
+            <div class="config-type-header collapsed">
+                <span class="toggle-icon">▼</span>
+                <span>Schema Coverage</span>
+                <span style="margin-left: auto; font-size: 0.85em; font-weight: normal; color: #999;">${Object.values(report).reduce((sum, c) => sum + c.declaredFields - c.usedFields, 0)} declared fields never used</span>
+            </div>
+            <div class="config-type-content collapsed">
+                ${typesHtml || '<p class="section-note">No vendored schemas to compare against.</p>'}
+            </div>
+        </div>
+    `
+}
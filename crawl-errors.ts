@@ -0,0 +1,140 @@
+import { mkdir, writeFile } from "node:fs/promises"
+import type { JsonSyntaxError } from "./config-parser.ts"
+import type { AnalysisContext, CrawlError, CrawlStage } from "./context.ts"
+import { escapeHtml, getModBadgeHtml } from "./html.ts"
+
+/**
+ * An error that knows which crawl stage it happened in, and which file it concerns if any
+ */
+export class CrawlStageError extends Error {
+    stage: CrawlStage
+    path: string | undefined
+    syntax: JsonSyntaxError | undefined // where a parse error is in the file
+    recovered: boolean // the file was still loaded after recovering from the error
+
+    constructor(stage: CrawlStage, message: string, path?: string, details: { syntax?: JsonSyntaxError, recovered?: boolean } = {}) {
+        super(message)
+        this.stage = stage
+        this.path = path
+        this.syntax = details.syntax
+        this.recovered = details.recovered ?? false
+    }
+}
+
+/**
+ * Await some crawl work, tagging any error it throws with a stage unless it already has one
+ */
+export async function withCrawlStage<T>(stage: CrawlStage, path: string | undefined, work: Promise<T>): Promise<T> {
+    try {
+        return await work
+    } catch (e) {
+        if (e instanceof CrawlStageError) {
+            throw e
+        }
+        throw new CrawlStageError(stage, e instanceof Error ? e.message : String(e), path)
+    }
+}
+
+/**
+ * Log a crawl error and add it to the ledger, using the fallback stage for errors that were not tagged with one
+ */
+export function recordCrawlError(
+    ctx: AnalysisContext,
+    modName: string,
+    error: unknown,
+    fallbackStage: CrawlStage,
+    details: { repo?: string, path?: string, ref?: string } = {}
+) {
+    const stage = error instanceof CrawlStageError ? error.stage : fallbackStage
+    const path = error instanceof CrawlStageError && error.path ? error.path : details.path
+    const message = error instanceof Error ? error.message : String(error)
+    const syntax = error instanceof CrawlStageError ? error.syntax : undefined
+    const recovered = error instanceof CrawlStageError && error.recovered
+    // Errors while loading the cache do not know the repo, but the mod's source metadata usually does
+    const source = ctx.modSources[modName]
+    const repo = details.repo ?? (source?.owner ? `${source.owner}/${source.repo}` : undefined)
+    console.log(`${recovered ? 'Recovered from error' : 'Error'} (${stage}) in mod ${modName}${details.ref ? ` at ${details.ref}` : ''}${path ? ` in ${path}` : ''}: ${message}`)
+    ctx.crawlErrors.push({
+        modName,
+        ...(repo ? { repo } : {}),
+        ...(details.ref ? { ref: details.ref } : {}),
+        ...(path ? { path } : {}),
+        stage,
+        message,
+        ...(syntax ? { line: syntax.line, column: syntax.column, snippet: syntax.snippet } : {}),
+        ...(recovered ? { recovered } : {}),
+    })
+}
+
+/**
+ * Log an error that concerns every mod rather than one, such as a schema that cannot be loaded, and add it to the ledger
+ */
+export function recordRunError(ctx: AnalysisContext, stage: CrawlStage, message: string, path?: string) {
+    console.error(`Error (${stage})${path ? ` in ${path}` : ''}: ${message}`)
+    ctx.crawlErrors.push({
+        ...(path ? { path } : {}),
+        stage,
+        message,
+    })
+}
+
+/**
+ * Write the crawl error ledger to analysis/crawl-errors.json
+ */
+export async function writeCrawlErrors(ctx: AnalysisContext, analysisOutputDir: string): Promise<CrawlError[]> {
+    const errors = [...ctx.crawlErrors].sort((a, b) =>
+        (a.modName ?? '').localeCompare(b.modName ?? '') || (a.path ?? '').localeCompare(b.path ?? '') || a.stage.localeCompare(b.stage)
+    )
+    await mkdir(analysisOutputDir, { recursive: true })
+    await writeFile(`${analysisOutputDir}/crawl-errors.json`, JSON.stringify(errors, null, 2))
+    console.log(`Recorded ${errors.length} crawl errors`)
+    return errors
+}
+
+/**
+ * Render the crawl errors as a collapsible "Problems" section of the HTML report, grouped by mod, with the errors that
+ * concern every mod first
+ */
+export function getCrawlErrorsHtml(errors: CrawlError[]): string {
+    const errorsByMod = new Map<string, CrawlError[]>()
+    for (const error of errors) {
+        const modName = error.modName ?? ''
+        if (!errorsByMod.has(modName)) {
+            errorsByMod.set(modName, [])
+        }
+        errorsByMod.get(modName)!.push(error)
+    }
+    const modCount = Array.from(errorsByMod.keys()).filter(modName => modName).length
+
+    const modsHtml = Array.from(errorsByMod.entries()).map(([modName, modErrors]) => {
+        const repo = modErrors.find(error => error.repo)?.repo
+        return `
+            <div class="issue-item">
+                ${modName ? getModBadgeHtml(modName, repo ? `https://github.com/${repo}` : undefined) : '<span class="field-name">All mods</span>'}
+                ${modErrors.map(error => `
+                    <div>
+                        <span class="field-type">${escapeHtml(error.stage)}</span>
+                        ${error.ref ? `<span class="field-type">${escapeHtml(error.ref)}</span>` : ''}
+                        ${error.recovered ? '<span class="field-type">recovered</span>' : ''}
+                        ${error.path ? `<span class="field-name">${escapeHtml(error.path)}${error.line ? `:${error.line}:${error.column}` : ''}</span>` : ''}
+                        <span class="issue-message">${escapeHtml(error.message)}</span>
+                        ${error.snippet ? `<pre class="error-snippet">${escapeHtml(error.snippet)}</pre>` : ''}
+                    </div>
+                `).join('')}
+            </div>
+        `
+    }).join('')
+
+    return `
+        <div class="config-type">
+            <div class="config-type-header collapsed">
+                <span class="toggle-icon">▼</span>
+                <span>Problems</span>
+                <span style="margin-left: auto; font-size: 0.85em; font-weight: normal; color: #999;">${errors.length} crawl errors in ${modCount} mods</span>
+            </div>
+            <div class="config-type-content collapsed">
+                ${modsHtml || '<p class="section-note">No problems while crawling.</p>'}
+            </div>
+        </div>
+    `
+}
@@ -0,0 +1,6 @@
+import { diffAnalysisSnapshots } from "./snapshot.ts"
+
+// Usage: npm run diff -- [fromSnapshot] [toSnapshot]
+const [fromName, toName] = process.argv.slice(2)
+
+await diffAnalysisSnapshots(`${process.cwd()}/analysis`, fromName, toName)
@@ -0,0 +1,313 @@
+import { readFile } from "node:fs/promises"
+import JSON5 from "json5"
+import type { AnalysisContext } from "./context.ts"
+import type { DynamicKeyRule } from "./dynamic-keys.ts"
+
+/** Rules for which files in a mod's repo or release are configs, and where they are loaded */
+const DISCOVERY_CONFIG_PATH = process.env.DISCOVERY_CONFIG || `${process.cwd()}/discovery.json`
+
+/** Stores holding one config per mod: Mod UniqueName -> data */
+const SINGLE_FILE_STORES = ['manifestConfigs', 'titleScreenConfigs', 'addonConfigs', 'settingConfigs'] as const
+
+/** Stores holding any number of configs per mod: Mod UniqueName -> Config File Path -> data */
+const MULTI_FILE_STORES = ['planetConfigs', 'systemConfigs', 'translationConfigs', 'dialogueConfigs', 'nomaiTextConfigs', 'shipLogConfigs'] as const
+
+type SingleFileStoreName = typeof SINGLE_FILE_STORES[number]
+type MultiFileStoreName = typeof MULTI_FILE_STORES[number]
+
+/** Config types that have no dedicated store are kept in ctx.extraConfigs under their name */
+export type ConfigStoreName = SingleFileStoreName | MultiFileStoreName | 'extraConfigs'
+
+/** XML configs are converted into a field tree so they can be analyzed like JSON (see xml.ts) */
+export type ConfigFormat = 'json' | 'xml'
+
+export interface ConfigTypeRule {
+    name: string // Config type name used throughout the analysis, e.g. 'planets'
+    store: ConfigStoreName
+    file?: string // For types with one file per mod: the Config File Path it is cached and reported as, e.g. 'title-screen.json'
+    directory?: string // For types with many files per mod: the directory their Config File Paths start at, e.g. 'planets'.
+    // Without a file or directory, Config File Paths are paths from the mod root (the manifest's directory), and only files below it match
+    include: string[] // Globs matched against the path in the repo or release zip, case-insensitively
+    exclude?: string[]
+    format?: ConfigFormat // Defaults to 'json'
+    rootElement?: string // For XML types: only files with this root element are loaded as this type
+    dynamicKeys?: DynamicKeyRule[] // Objects whose keys are collapsed into a placeholder in the analysis, e.g. settings.{settingName}
+    detectDynamicKeys?: boolean // Whether objects that look like maps are also collapsed, as {key}; defaults to false
+}
+
+/** Adjustments to the rules for a single mod whose repo does not follow the usual layout */
+export interface ModDiscoveryOverride {
+    exclude?: string[] // Added to the global exclusions
+    configTypes?: Record<string, {
+        include?: string[] // Replaces the config type's includes
+        exclude?: string[] // Added to the config type's exclusions
+    }>
+}
+
+export interface DiscoveryRules {
+    exclude?: string[] // Globs excluded for every config type, e.g. build outputs
+    configTypes: ConfigTypeRule[]
+    mods?: Record<string, ModDiscoveryOverride> // Mod UniqueName -> override
+}
+
+/** A file that matched at least one config type */
+export interface DiscoveredConfigFile {
+    path: string // path in the repo or release zip
+    filePath: string // Config File Path it is cached and reported as
+    configTypes: ModConfigType[] // every config type it matched, in order; see selectConfigType
+}
+
+/** A config type with a mod's overrides applied */
+export interface ModConfigType extends ConfigTypeRule {
+    matches: (path: string) => boolean
+}
+
+let discoveryRules: Promise<DiscoveryRules> | null = null
+
+/**
+ * Load and check the discovery rules, once per run
+ */
+export function loadDiscoveryRules(): Promise<DiscoveryRules> {
+    if (!discoveryRules) {
+        discoveryRules = (async () => {
+            const rules: DiscoveryRules = JSON5.parse(await readFile(DISCOVERY_CONFIG_PATH, 'utf-8'))
+            checkDiscoveryRules(rules)
+            return rules
+        })()
+    }
+    return discoveryRules
+}
+
+/**
+ * Throw if the rules could not be followed, so a typo fails the run instead of silently dropping a config type
+ */
+function checkDiscoveryRules(rules: DiscoveryRules) {
+    const fail = (message: string) => {
+        throw new Error(`Invalid discovery config ${DISCOVERY_CONFIG_PATH}: ${message}`)
+    }
+    if (!Array.isArray(rules.configTypes)) {
+        fail('configTypes must be a list')
+    }
+    const names = new Set<string>()
+    for (const type of rules.configTypes) {
+        if (!type.name || names.has(type.name)) {
+            fail(`config type names must be unique and not empty, found '${type.name}'`)
+        }
+        names.add(type.name)
+        if (!Array.isArray(type.include) || type.include.length === 0) {
+            fail(`config type ${type.name} must include at least one glob`)
+        }
+        if (type.file && type.directory) {
+            fail(`config type ${type.name} cannot have both a file and a directory`)
+        }
+        if (type.format && type.format !== 'json' && type.format !== 'xml') {
+            fail(`config type ${type.name} has unknown format '${type.format}'`)
+        }
+        if (type.rootElement && type.format !== 'xml') {
+            fail(`config type ${type.name} has a rootElement, which only XML types can have`)
+        }
+        for (const rule of type.dynamicKeys ?? []) {
+            if (typeof rule.path !== 'string' || !rule.placeholder) {
+                fail(`config type ${type.name} has a dynamic key rule without a path or placeholder`)
+            }
+        }
+        if (isSingleFileType(type) && !type.file) {
+            fail(`config type ${type.name} is loaded into ${type.store}, which holds one file per mod, so it needs a file`)
+        }
+        if (!isSingleFileType(type) && type.store !== 'extraConfigs' && !(MULTI_FILE_STORES as readonly string[]).includes(type.store)) {
+            fail(`config type ${type.name} has unknown store '${type.store}'`)
+        }
+    }
+    if (!rules.configTypes.some(type => type.store === 'manifestConfigs')) {
+        fail('a config type must load manifestConfigs, since the manifest holds the mod version')
+    }
+    for (const [modUniqueName, override] of Object.entries(rules.mods ?? {})) {
+        for (const name of Object.keys(override.configTypes ?? {})) {
+            if (!names.has(name)) {
+                fail(`override for mod ${modUniqueName} refers to unknown config type ${name}`)
+            }
+        }
+    }
+}
+
+/**
+ * Get every config type with a mod's overrides applied, in the order they are declared
+ */
+export function getModConfigTypes(rules: DiscoveryRules, modUniqueName: string): ModConfigType[] {
+    const override = rules.mods?.[modUniqueName]
+    const globalExclude = [...(rules.exclude ?? []), ...(override?.exclude ?? [])]
+    return rules.configTypes.map(type => {
+        const typeOverride = override?.configTypes?.[type.name]
+        const include = (typeOverride?.include ?? type.include).map(globToRegExp)
+        const exclude = [...globalExclude, ...(type.exclude ?? []), ...(typeOverride?.exclude ?? [])].map(globToRegExp)
+        return {
+            ...type,
+            matches: (path: string) => {
+                const normalized = path.replace(/\\/g, '/')
+                return include.some(glob => glob.test(normalized)) && !exclude.some(glob => glob.test(normalized))
+            },
+        }
+    })
+}
+
+/** The config type holding mod manifests, which are found first since their version decides where the mod is cached */
+export function getManifestType<T extends ConfigTypeRule>(configTypes: T[]): T {
+    return configTypes.find(type => type.store === 'manifestConfigs')!
+}
+
+/** The format a config type's files are parsed as */
+export function getConfigFormat(type: ConfigTypeRule): ConfigFormat {
+    return type.format ?? 'json'
+}
+
+/** Whether each mod has at most one file of this config type, kept directly under the mod's name */
+export function isSingleFileType(type: ConfigTypeRule): boolean {
+    return (SINGLE_FILE_STORES as readonly string[]).includes(type.store)
+}
+
+/**
+ * Get the Config File Path a file of this type is cached and reported as: the fixed file name,
+ * the path below and including the config type's directory, or the path from the mod root
+ */
+export function getConfigFilePath(type: ConfigTypeRule, path: string, modRoot: string): string {
+    if (type.file) {
+        return type.file
+    }
+    return type.directory ? getRelativePathFrom(path, `${type.directory}/`) : path.substring(modRoot.length)
+}
+
+/**
+ * Match a mod's files against every config type but the manifest, which is found first.
+ * A type with a file takes the first file it matches, logging a warning if there are several.
+ * Any other file belongs to the first type it matches, or to the first XML type with its root element if several
+ * XML types match it, so each file is only fetched and cached once.
+ */
+export function findConfigFiles(configTypes: ModConfigType[], paths: string[], modRoot: string, modUniqueName: string): DiscoveredConfigFile[] {
+    const manifestType = getManifestType(configTypes)
+    const files: DiscoveredConfigFile[] = []
+    for (const configType of configTypes) {
+        if (configType === manifestType || !configType.file) {
+            continue
+        }
+        const matchingPaths = paths.filter(path => configType.matches(path))
+        if (matchingPaths.length > 1) {
+            console.log(`Warning: multiple ${configType.file} files found for mod ${modUniqueName}, using the first one found: ${matchingPaths.join(', ')}`)
+        }
+        if (matchingPaths.length > 0) {
+            files.push({ path: matchingPaths[0], filePath: configType.file, configTypes: [configType] })
+        }
+    }
+    for (const path of paths) {
+        const candidates = configTypes.filter(configType =>
+            !configType.file &&
+            (configType.directory || path.startsWith(modRoot)) &&
+            configType.matches(path)
+        )
+        if (candidates.length === 0) {
+            continue
+        }
+        const filePath = getConfigFilePath(candidates[0], path, modRoot)
+        const format = getConfigFormat(candidates[0])
+        files.push({
+            path,
+            filePath,
+            configTypes: candidates.filter(configType =>
+                getConfigFilePath(configType, path, modRoot) === filePath && getConfigFormat(configType) === format
+            ),
+        })
+    }
+    return files
+}
+
+/**
+ * Pick the config type a parsed file is loaded as: the first of its matching types that accepts its XML root element.
+ * Returns null for XML files that none of them accept, e.g. XML that is not a New Horizons config.
+ */
+export function selectConfigType<T extends ConfigTypeRule>(configTypes: T[], rootElement: string | null): T | null {
+    return configTypes.find(configType => !configType.rootElement || configType.rootElement === rootElement) ?? null
+}
+
+/** Get the store for a config type with one file per mod */
+export function getSingleFileStore(ctx: AnalysisContext, type: ConfigTypeRule): Record<string, any> {
+    return ctx[type.store as SingleFileStoreName]
+}
+
+/** Get the store for a config type with any number of files per mod */
+export function getMultiFileStore(ctx: AnalysisContext, type: ConfigTypeRule): Record<string, Record<string, any>> {
+    if (type.store === 'extraConfigs') {
+        ctx.extraConfigs[type.name] = ctx.extraConfigs[type.name] || {}
+        return ctx.extraConfigs[type.name]
+    }
+    return ctx[type.store as MultiFileStoreName]
+}
+
+/**
+ * Put a parsed config into the store its config type targets
+ */
+export function setConfig(ctx: AnalysisContext, type: ConfigTypeRule, modUniqueName: string, filePath: string, content: any) {
+    if (isSingleFileType(type)) {
+        getSingleFileStore(ctx, type)[modUniqueName] = content
+    } else {
+        const store = getMultiFileStore(ctx, type)
+        store[modUniqueName] = store[modUniqueName] || {}
+        store[modUniqueName][filePath] = content
+    }
+}
+
+/**
+ * Forget a mod's previously loaded configs other than its manifest, so files deleted from its repo do not linger in the analysis,
+ * along with the crawl errors recorded while loading them. Errors of past versions, which have a ref, are kept.
+ */
+export function removeModConfigs(ctx: AnalysisContext, modUniqueName: string) {
+    for (const storeName of [...SINGLE_FILE_STORES, ...MULTI_FILE_STORES]) {
+        if (storeName !== 'manifestConfigs') {
+            delete ctx[storeName][modUniqueName]
+        }
+    }
+    for (const store of Object.values(ctx.extraConfigs)) {
+        delete store[modUniqueName]
+    }
+    // Pruned in place, since contexts for past versions share the ledger
+    const keptErrors = ctx.crawlErrors.filter(error => error.modName !== modUniqueName || error.ref)
+    ctx.crawlErrors.splice(0, ctx.crawlErrors.length, ...keptErrors)
+}
+
+/**
+ * Extract the relative path starting from a specific directory name, matched as a whole path segment
+ */
+export function getRelativePathFrom(fullPath: string, directoryName: string): string {
+    const normalized = fullPath.replace(/\\/g, '/')
+    // Prefixing a slash makes the index of '/{directory}' the index of the directory in the original path
+    const index = `/${normalized.toLowerCase()}`.indexOf(`/${directoryName.toLowerCase()}`)
+    if (index === -1) {
+        throw new Error(`Directory '${directoryName}' not found in path '${fullPath}'`)
+    }
+    return normalized.substring(index)
+}
+
+/**
+ * Compile a path glob: `**` matches any number of directories, `*` and `?` match within a single path segment
+ */
+export function globToRegExp(glob: string): RegExp {
+    let pattern = ''
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i]
+        if (char === '*' && glob[i + 1] === '*') {
+            // '**/' may also match no directories at all, so '**/planets/**' matches 'planets/Foo.json'
+            if (glob[i + 2] === '/') {
+                pattern += '(?:.*/)?'
+                i += 2
+            } else {
+                pattern += '.*'
+                i++
+            }
+        } else if (char === '*') {
+            pattern += '[^/]*'
+        } else if (char === '?') {
+            pattern += '[^/]'
+        } else {
+            pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        }
+    }
+    return new RegExp(`^${pattern}$`, 'i')
+}
@@ -0,0 +1,146 @@
+import type { ConfigTypeRule } from "./discovery.ts"
+import { ARRAY_ITEMS_SEGMENT, splitFieldPath } from "./field-paths.ts"
+import { hasSchemaProperties, loadSchema } from "./schema.ts"
+
+/** Segment of a dynamic-key rule path that matches any single key */
+const ANY_KEY_SEGMENT = '*'
+
+/** Placeholder used for the keys of objects detected as dynamic-key maps */
+const DETECTED_PLACEHOLDER = 'key'
+
+/** Distinct keys an object needs across a config type's files before it can be detected as a map; schema objects rarely have this many of one shape */
+const MIN_DETECTED_KEYS = 10
+
+/** Shape of an array whose items differ in shape, which never makes a map */
+const MIXED_SHAPE = 'mixed'
+
+/**
+ * An object whose keys are data rather than field names, such as the settings of a default-config.json or a translation
+ * dictionary. Its keys are collapsed into a single {placeholder} segment, e.g. settings.{settingName}.
+ */
+export interface DynamicKeyRule {
+    path: string // field path of the object, where '*' matches any single segment, e.g. 'settings' or 'AchievementTranslations'
+    placeholder: string // name of the placeholder its keys are collapsed into, e.g. 'settingName'
+    detected?: boolean // found by detectDynamicKeyRules rather than declared in discovery.json
+}
+
+/**
+ * Find the rule whose keys are collapsed for the object at a field path, if any
+ */
+export function matchDynamicKeyRule(rules: DynamicKeyRule[], fieldPath: string): DynamicKeyRule | null {
+    const segments = splitFieldPath(fieldPath)
+    return rules.find(rule => {
+        const ruleSegments = splitFieldPath(rule.path)
+        return ruleSegments.length === segments.length
+            && ruleSegments.every((segment, i) => segment === ANY_KEY_SEGMENT || segment === segments[i])
+    }) ?? null
+}
+
+/**
+ * Get the field path of a key of the object at a field path, collapsing the key into its placeholder if a rule matches
+ */
+export function getDynamicKeyFieldPath(rules: DynamicKeyRule[], fieldPath: string, key: string): string {
+    const rule = matchDynamicKeyRule(rules, fieldPath)
+    const segment = rule ? `{${rule.placeholder}}` : key
+    return fieldPath ? `${fieldPath}.${segment}` : segment
+}
+
+/**
+ * Get the rules for a config type: those declared in discovery.json, followed by those detected in its configs
+ * if detection is turned on for the type
+ */
+export async function resolveDynamicKeyRules(configType: ConfigTypeRule, configs: any[]): Promise<DynamicKeyRule[]> {
+    const rules = configType.dynamicKeys ?? []
+    if (!configType.detectDynamicKeys) {
+        return rules
+    }
+    return [...rules, ...detectDynamicKeyRules(configs, rules, await loadSchema(configType.name))]
+}
+
+/**
+ * Detect objects that are likely dynamic-key maps across all configs of a type: objects that are not matched by a
+ * declared rule, whose properties the type's schema does not declare, and that have many distinct keys, all holding
+ * values of the same shape. Objects are grouped by their field path with the declared and already detected rules
+ * applied, so maps nested in maps are found too.
+ */
+function detectDynamicKeyRules(configs: any[], rules: DynamicKeyRule[], schema: any | null): DynamicKeyRule[] {
+    const detected: DynamicKeyRule[] = []
+    // Field path -> every object found at it, one level of the config trees at a time
+    let objectsByPath = new Map([['', configs.filter(isPlainObject)]])
+
+    while (objectsByPath.size > 0) {
+        const nextObjectsByPath = new Map<string, any[]>()
+        for (const [fieldPath, objects] of Array.from(objectsByPath).sort(([a], [b]) => a.localeCompare(b))) {
+            // The root of a config is never a map
+            if (fieldPath && !matchDynamicKeyRule(rules, fieldPath) && !matchDynamicKeyRule(detected, fieldPath)
+                && !(schema && hasSchemaProperties(schema, fieldPath)) && isLikelyDynamicKeyMap(objects)) {
+                detected.push({ path: fieldPath, placeholder: DETECTED_PLACEHOLDER, detected: true })
+            }
+            for (const obj of objects) {
+                for (const [key, value] of Object.entries(obj)) {
+                    addObjects(nextObjectsByPath, getDynamicKeyFieldPath([...rules, ...detected], fieldPath, key), value)
+                }
+            }
+        }
+        objectsByPath = nextObjectsByPath
+    }
+    return detected
+}
+
+/**
+ * Add a value to the objects by field path if it is an object, or the objects among its items if it is an array,
+ * which are found at the items path, e.g. Props.details[]
+ */
+function addObjects(objectsByPath: Map<string, any[]>, fieldPath: string, value: any): void {
+    if (Array.isArray(value)) {
+        for (const item of value) {
+            addObjects(objectsByPath, `${fieldPath}${ARRAY_ITEMS_SEGMENT}`, item)
+        }
+    } else if (isPlainObject(value)) {
+        if (!objectsByPath.has(fieldPath)) {
+            objectsByPath.set(fieldPath, [])
+        }
+        objectsByPath.get(fieldPath)!.push(value)
+    }
+}
+
+/**
+ * Whether the objects found at a field path look like a map: many distinct keys, with every value of the same shape,
+ * which must be objects or primitives of one type, or arrays of them
+ */
+function isLikelyDynamicKeyMap(objects: any[]): boolean {
+    const keys = new Set<string>()
+    const shapes = new Set<string>()
+    for (const obj of objects) {
+        for (const [key, value] of Object.entries(obj)) {
+            keys.add(key)
+            shapes.add(getValueShape(value))
+        }
+    }
+    return keys.size >= MIN_DETECTED_KEYS && shapes.size === 1 && !shapes.has(MIXED_SHAPE) && !shapes.has('null')
+}
+
+/**
+ * Describe the shape of a value: its JSON type, with numbers of any kind alike, objects by their sorted keys and
+ * arrays by the shape of their items, e.g. string[]; arrays of differently shaped items are all alike as 'mixed'
+ */
+function getValueShape(value: any): string {
+    if (value === null || value === undefined) {
+        return 'null'
+    }
+    if (Array.isArray(value)) {
+        const itemShapes = new Set(value.map(getValueShape))
+        if (itemShapes.size > 1 || itemShapes.has(MIXED_SHAPE)) {
+            return MIXED_SHAPE
+        }
+        return `${itemShapes.values().next().value ?? ''}[]`
+    }
+    if (typeof value === 'object') {
+        return `{${Object.keys(value).sort().join(',')}}`
+    }
+    return typeof value
+}
+
+function isPlainObject(value: any): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
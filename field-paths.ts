@@ -0,0 +1,37 @@
+/** Path segment for the items of an array, e.g. Props.details[].position.x is the x of each detail's position */
+export const ARRAY_ITEMS_SEGMENT = '[]'
+
+/**
+ * Split a dotted field path into its segments, with each array's items as a '[]' segment of their own,
+ * e.g. Props.details[].position -> ['Props', 'details', '[]', 'position']
+ */
+export function splitFieldPath(fieldPath: string): string[] {
+    const segments: string[] = []
+    for (const part of fieldPath.split('.')) {
+        let key = part
+        let arrayDepth = 0
+        while (key.endsWith(ARRAY_ITEMS_SEGMENT)) {
+            key = key.substring(0, key.length - ARRAY_ITEMS_SEGMENT.length)
+            arrayDepth++
+        }
+        if (key) {
+            segments.push(key)
+        }
+        for (let i = 0; i < arrayDepth; i++) {
+            segments.push(ARRAY_ITEMS_SEGMENT)
+        }
+    }
+    return segments
+}
+
+/**
+ * Join field path segments back into a dotted field path, attaching '[]' segments to the key before them
+ */
+export function joinFieldPath(segments: string[]): string {
+    return segments.reduce((path, segment) => {
+        if (segment === ARRAY_ITEMS_SEGMENT || !path) {
+            return `${path}${segment}`
+        }
+        return `${path}.${segment}`
+    }, '')
+}
@@ -1,20 +1,42 @@
-import { access, mkdir, writeFile } from "node:fs/promises"
-import JSON5 from "json5"
-import { Octokit } from "octokit"
-import type { AnalysisContext } from "./context.ts"
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises"
+import { exists } from "./cache.ts"
+import { createCrawlProgress, forEachConcurrently } from "./concurrency.ts"
+import { parseConfigText } from "./config-parser.ts"
+import { createAnalysisContext, type AnalysisContext, type ModSourceInfo } from "./context.ts"
+import { recordCrawlError, withCrawlStage } from "./crawl-errors.ts"
+import {
+    findConfigFiles,
+    getConfigFormat,
+    getManifestType,
+    getModConfigTypes,
+    loadDiscoveryRules,
+    removeModConfigs,
+    selectConfigType,
+    setConfig,
+    type ConfigFormat,
+    type ModConfigType,
+} from "./discovery.ts"
+import { getConfigPointerLines } from "./locations.ts"
+import type { ModSource, RepoTreeEntry } from "./mod-source.ts"
 
-const MOD_ALLOW_LIST: string[] | null = process.env.MOD_ALLOW_LIST
+export const MOD_ALLOW_LIST: string[] | null = process.env.MOD_ALLOW_LIST
     ? process.env.MOD_ALLOW_LIST.split(',').map(s => s.trim())
     : null
 
-const octokit = new Octokit({
-  auth: process.env.GITHUB_TOKEN,
-})
+/** Number of mods fetched at once */
+export const MOD_CONCURRENCY = Number(process.env.MOD_CONCURRENCY) || 4
 
-export async function fetchAndLoadModsFromGitHub(ctx: AnalysisContext) {
+/** Number of config files fetched at once within each mod */
+const FILE_CONCURRENCY = Number(process.env.FILE_CONCURRENCY) || 4
+
+/** File contents keyed by git blob SHA, shared by every mod and version so an unchanged file is never downloaded twice */
+const BLOB_CACHE_DIR = `${process.cwd()}/blob-cache`
+
+/** Also cache past versions of each mod from its git tags (opt-in, since it costs several requests per tag) */
+const BACKFILL_VERSIONS = process.env.BACKFILL_VERSIONS === 'true'
+
+export async function fetchAndLoadModsFromGitHub(ctx: AnalysisContext, source: ModSource, modCacheRootDir: string) {
     console.log('Fetching mods from GitHub...')
-    
-    const modCacheRootDir = `${process.cwd()}/mod-cache`
 
     /*
     Example data from mods.json:
@@ -35,270 +57,317 @@ export async function fetchAndLoadModsFromGitHub(ctx: AnalysisContext) {
     */
 
     // Load the official mod database mods list
-    const modDB = await getGitHubJsonContent('ow-mods', 'ow-mod-db', 'mods.json')
+    const modDB = await source.getModDatabase()
 
-    // Process each mod in the database
+    // Process each mod in the database, several at a time
+    const mods = modDB.mods.filter((mod: any) => {
+        if (MOD_ALLOW_LIST && !MOD_ALLOW_LIST.includes(mod.uniqueName)) {
+            return false
+        }
+        if (!mod.repo) {
+            console.log(`Skipping mod ${mod.uniqueName} with no repo`)
+            return false
+        }
+        return true
+    })
+    const progress = createCrawlProgress(mods.length, () => source.getRateLimit())
 
-    for (const mod of modDB.mods) {
+    await forEachConcurrently(mods, MOD_CONCURRENCY, async (mod: any) => {
         try {
-            if (MOD_ALLOW_LIST && !MOD_ALLOW_LIST.includes(mod.uniqueName)) {
-                continue
-            }
-            if (!mod.repo) {
-                console.log(`Skipping mod ${mod.uniqueName} with no repo`)
-                continue
-            }
             console.log(`Fetching mod ${mod.uniqueName} from repo ${mod.repo}`)
             const [owner, repo] = mod.repo.split('/')
-            const defaultBranch = await getGitHubDefaultBranch(owner, repo)
-            const fileTree = await getGitHubFileTree(owner, repo, defaultBranch)
-
-            // First, we want to find the "manifest.json" file that contains the mod metadata and version number.
-            const manifestPath = findSingleGitHubFileByName(fileTree, 'manifest.json', mod.uniqueName, mod.repo)
-            if (!manifestPath) {
-                console.log(`No manifest.json file found for mod ${mod.uniqueName} in repo ${mod.repo}`)
-                continue
-            }
+            const defaultBranch = await source.getDefaultBranch(owner, repo)
+            // Pin everything to the branch's current commit so permalinks and file contents agree
+            const commitSha = await source.getBranchHeadSha(owner, repo, defaultBranch)
+            await fetchModAtCommit(ctx, source, mod.uniqueName, owner, repo, defaultBranch, null, commitSha, modCacheRootDir)
 
-            /*
-            Example manifest.json content:
-            {
-                "$schema": "https://raw.githubusercontent.com/ow-mods/owml/master/schemas/manifest_schema.json",
-                "filename": "QSB.dll",
-                "author": "Nebula, John, Alek, & Rai",
-                "name": "Quantum Space Buddies",
-                "uniqueName": "Raicuparta.QuantumSpaceBuddies",
-                "version": "1.5.0",
-                "owmlVersion": "2.14.0",
-                "dependencies": [ "JohnCorby.VanillaFix" ],
-                "pathsToPreserve": [ "debugsettings.json" ],
-                "conflicts": [
-                    "Vesper.AutoResume",
-                    "Vesper.OuterWildsMMO",
-                    "_nebula.StopTime",
-                    "PacificEngine.OW_CommonResources"
-                ],
-                "requireLatestVersion": true,
-                "patcher": "QSBPatcher.exe",
-                "donateLinks": [ "https://www.paypal.me/nebula2056", "https://www.paypal.me/johncorby" ]
-            }
-            */
-            const manifest = await getGitHubJsonContent(owner, repo, manifestPath)
-
-            // If we already have this version cached, skip further processing
-            const version = manifest.version || '0.0.0'
-            const modCacheDir = `${modCacheRootDir}/${mod.uniqueName}/${version}`
-            if (await exists(modCacheDir)) {
-                console.log(`Mod ${mod.uniqueName} version ${version} is already cached, skipping`)
-                continue
+            if (BACKFILL_VERSIONS) {
+                await backfillModVersions(ctx, source, mod.uniqueName, owner, repo, defaultBranch, modCacheRootDir)
             }
+        } catch (e) {
+            recordCrawlError(ctx, mod.uniqueName, e, 'tree', { repo: mod.repo })
+        }
+        progress.complete()
+    })
+}
 
-            // Cache the manifest file locally
-            await mkdir(modCacheDir, { recursive: true })
-            await writeFile(`${modCacheDir}/manifest.json`, JSON.stringify(manifest, null, 2))
-            ctx.manifestConfigs[mod.uniqueName] = manifest
-            // Also store latest manifest for the mod in the root so we can grab the latest version easily later
-            const latestModCacheDir = `${modCacheRootDir}/${mod.uniqueName}`
-            await mkdir(latestModCacheDir, { recursive: true })
-            await writeFile(`${latestModCacheDir}/manifest.json`, JSON.stringify(manifest, null, 2))
-
-            // Repeat the process for other common mod metadata files, if they exist:
-            const metadataFileConfigs = [
-                { name: 'title-screen.json', store: ctx.titleScreenConfigs },
-                { name: 'addon-manifest.json', store: ctx.addonConfigs },
-                { name: 'default-config.json', store: ctx.settingConfigs }
-            ]
-            
-            for (const { name: metadataFileName, store } of metadataFileConfigs) {
-                const metadataPath = findSingleGitHubFileByName(fileTree, metadataFileName, mod.uniqueName, mod.repo)
-                if (!metadataPath) {
-                    continue
-                }
-                const metadataContent = await getGitHubJsonContent(owner, repo, metadataPath)
-                await saveMetadataFile(modCacheDir, metadataFileName, metadataContent, store, mod.uniqueName)
-            }
+/** A config file found in a mod's repo tree */
+interface RepoConfigFile {
+    filePath: string // Config File Path, e.g. planets/Foo.json or title-screen.json
+    repoPath: string
+    sha: string | undefined
+    configTypes: ModConfigType[] // config types it matched, picked from once it is parsed
+}
 
-            // Next, we grab and cache any planet configs (JSON files with a "planets" directory in the path)
-            const planetConfigFiles = findFilesInGitHubDirectory(fileTree, 'planets/')
-            await processGitHubConfigFiles(owner, repo, planetConfigFiles, 'planets/', modCacheDir, ctx.planetConfigs, mod.uniqueName)
+/**
+ * Fetch a mod's configs at a specific commit, cache them under mod-cache/{uniqueName}/{version}/ and load them into the context.
+ * The root manifest.json is only updated for the branch head, not for tagged (backfilled) versions.
+ * A cached branch head version is fetched again when any of its files changed without a version bump.
+ * Returns false if there is no manifest at that commit or its version is already cached and unchanged.
+ */
+async function fetchModAtCommit(
+    ctx: AnalysisContext,
+    source: ModSource,
+    modUniqueName: string,
+    owner: string,
+    repo: string,
+    branch: string,
+    tag: string | null,
+    commitSha: string,
+    modCacheRootDir: string
+): Promise<boolean> {
+    const fileTree = await withCrawlStage('tree', undefined, source.getFileTree(owner, repo, commitSha))
+    const blobShas = new Map(fileTree.map(entry => [entry.path, entry.sha]))
+    const configTypes = getModConfigTypes(await loadDiscoveryRules(), modUniqueName)
 
-            // Same with solar system configs (JSON files with "systems/" in the path)
-            const systemConfigFiles = findFilesInGitHubDirectory(fileTree, 'systems/')
-            await processGitHubConfigFiles(owner, repo, systemConfigFiles, 'systems/', modCacheDir, ctx.systemConfigs, mod.uniqueName)
-        } catch (e) {
-            console.log(`Error processing mod ${mod.uniqueName} from repo ${mod.repo}: ${e}`)
+    // First, we want to find the "manifest.json" file that contains the mod metadata and version number.
+    const manifestType = getManifestType(configTypes)
+    const manifestPath = findSingleGitHubFile(fileTree, manifestType, modUniqueName, `${owner}/${repo}`)
+    if (!manifestPath) {
+        console.log(`No manifest.json file found for mod ${modUniqueName} in repo ${owner}/${repo}${tag ? ` at tag ${tag}` : ''}`)
+        return false
+    }
+
+    /*
+    Example manifest.json content:
+    {
+        "$schema": "https://raw.githubusercontent.com/ow-mods/owml/master/schemas/manifest_schema.json",
+        "filename": "QSB.dll",
+        "author": "Nebula, John, Alek, & Rai",
+        "name": "Quantum Space Buddies",
+        "uniqueName": "Raicuparta.QuantumSpaceBuddies",
+        "version": "1.5.0",
+        "owmlVersion": "2.14.0",
+        "dependencies": [ "JohnCorby.VanillaFix" ],
+        "pathsToPreserve": [ "debugsettings.json" ],
+        "conflicts": [
+            "Vesper.AutoResume",
+            "Vesper.OuterWildsMMO",
+            "_nebula.StopTime",
+            "PacificEngine.OW_CommonResources"
+        ],
+        "requireLatestVersion": true,
+        "patcher": "QSBPatcher.exe",
+        "donateLinks": [ "https://www.paypal.me/nebula2056", "https://www.paypal.me/johncorby" ]
+    }
+    */
+    const manifestText = await getBlobText(source, owner, repo, manifestPath, blobShas.get(manifestPath), commitSha)
+    // A recovered parse error is only recorded once it is clear the version is fetched, after what was loaded before is removed
+    const parsedManifest = parseConfigText(manifestText, manifestPath, 'json')
+    const manifest = parsedManifest.data
+    const version = manifest.version || '0.0.0'
+    const modCacheDir = `${modCacheRootDir}/${modUniqueName}/${version}`
+
+    // Every other config file comes straight from the tree, so an unchanged version costs no content requests
+    const configFiles: RepoConfigFile[] = []
+
+    // The rest of the config types declared in discovery.json: metadata files like title-screen.json if they exist,
+    // and any number of files for types like planets, or XML types anywhere below the mod root
+    const modRoot = manifestPath.substring(0, manifestPath.lastIndexOf('/') + 1)
+    const treePaths = fileTree.filter(entry => entry.type === 'blob').map(entry => entry.path)
+    for (const { path, filePath, configTypes: fileConfigTypes } of findConfigFiles(configTypes, treePaths, modRoot, modUniqueName)) {
+        configFiles.push({ filePath, repoPath: path, sha: blobShas.get(path), configTypes: fileConfigTypes })
+    }
+
+    const blobs: Record<string, string> = {}
+    for (const { filePath, sha } of [{ filePath: 'manifest.json', sha: blobShas.get(manifestPath) }, ...configFiles]) {
+        if (sha) {
+            blobs[filePath] = sha
         }
     }
-}
 
-async function getGitHubDefaultBranch(owner: string, repo: string) {
-    const res = await octokit.rest.repos.get({
-        owner,
-        repo,
-    })
-    if (res.status !== 200) {
-        throw new Error(`Failed to get repo info for ${owner}/${repo}: ${res.status}`)
+    // If we already have this version cached, skip further processing unless its files changed under the same version.
+    // Tags are not expected to move, and must not overwrite a version cached from the branch head.
+    // Versions cached before file listings were recorded are fetched once more to list their files.
+    if (await exists(modCacheDir)) {
+        const hasFileTree = await exists(`${modCacheDir}/tree.json`)
+        if (tag || (hasFileTree && await hasSameBlobs(modCacheDir, blobs, configFiles.length + 1))) {
+            console.log(`Mod ${modUniqueName} version ${version} is already cached, skipping`)
+            return false
+        }
+        console.log(hasFileTree
+            ? `Mod ${modUniqueName} version ${version} changed without a version bump, updating the cache`
+            : `Mod ${modUniqueName} version ${version} was cached without a file listing, updating the cache`)
+        await rm(modCacheDir, { recursive: true, force: true })
+    }
+    // The configs and errors loaded for the branch head are replaced, whether they came from this version or an older one
+    if (!tag) {
+        removeModConfigs(ctx, modUniqueName)
+    }
+    if (parsedManifest.recoveredError) {
+        recordCrawlError(ctx, modUniqueName, parsedManifest.recoveredError, 'parse', { repo: `${owner}/${repo}`, ...(tag ? { ref: tag } : {}) })
     }
-    return res.data.default_branch
-}
 
-async function getGitHubFileTree(owner: string, repo: string, ref: string) {
-    const res = await octokit.rest.git.getTree({
+    // Download concurrently, but store in tree order so the cache and stores do not depend on which request finished first
+    const configTexts: string[] = []
+    await forEachConcurrently(configFiles, FILE_CONCURRENCY, async (configFile, index) => {
+        configTexts[index] = await getBlobText(source, owner, repo, configFile.repoPath, configFile.sha, commitSha)
+    })
+
+    // Track where every cached file came from so the report can link back to it
+    const sourceInfo: ModSourceInfo = {
         owner,
         repo,
-        tree_sha: ref,
-        recursive: 'true',
-    })
-    if (res.status !== 200) {
-        throw new Error(`Failed to get file tree for ${owner}/${repo}@${ref}: ${res.status}`)
+        branch,
+        ...(tag ? { tag } : {}),
+        ...(source.hasPermalinks ? { commitSha } : {}),
+        fetchedAt: new Date().toISOString(),
+        files: {},
+        blobs,
     }
-    return res.data.tree
-}
+    ctx.modSources[modUniqueName] = sourceInfo
+    ctx.configLines[modUniqueName] = {}
 
-async function getGitHubJsonContent(owner: string, repo: string, path: string) {
-    const res = await octokit.rest.repos.getContent({ owner, repo, path })
-    if (res.status !== 200) {
-        throw new Error(`Failed to get content for ${owner}/${repo}/${path}: ${res.status}`)
-    }
-    if (!('content' in res.data)) {
-        throw new Error(`Content for ${owner}/${repo}/${path} is not a file`)
+    // Cache the manifest file locally, keeping the original text so line numbers match the repo
+    await writeCacheFile(`${modCacheDir}/manifest.json`, manifestText)
+    ctx.manifestConfigs[modUniqueName] = manifest
+    recordSourceFile(ctx, modUniqueName, 'manifest.json', manifestPath, manifestText, 'json')
+    // Also store latest manifest for the mod in the root so we can grab the latest version easily later
+    if (!tag) {
+        await writeCacheFile(`${modCacheRootDir}/${modUniqueName}/manifest.json`, manifestText)
     }
-    const content = Buffer.from(res.data.content, 'base64').toString('utf-8')
-    // Contents may be 'loose' JSON with comments and trailing commas, so we use a more forgiving superset parser
-    try {
-        return JSON5.parse(content)
-    } catch (e) {
-        throw new Error(`Failed to parse JSON content for ${owner}/${repo}/${path}: ${e}`)
+
+    for (const [index, configFile] of configFiles.entries()) {
+        // Broken files are cached like any other, so reloading from the cache reports them again
+        const configText = configTexts[index]
+        await writeCacheFile(`${modCacheDir}/${configFile.filePath}`, configText)
+        const format = getConfigFormat(configFile.configTypes[0])
+        recordSourceFile(ctx, modUniqueName, configFile.filePath, configFile.repoPath, configText, format)
+        try {
+            const { data, rootElement } = parseGitHubConfigContent(ctx, configText, modUniqueName, owner, repo, configFile.repoPath, tag, format)
+            const configType = selectConfigType(configFile.configTypes, rootElement)
+            if (configType) {
+                setConfig(ctx, configType, modUniqueName, configFile.filePath, data)
+            }
+        } catch (e) {
+            recordCrawlError(ctx, modUniqueName, e, 'parse', { repo: `${owner}/${repo}`, path: configFile.repoPath, ...(tag ? { ref: tag } : {}) })
+        }
     }
-}
 
+    // List every file below the mod root, so asset references in the configs can be resolved without the repo
+    const modFileTree = treePaths.filter(path => path.startsWith(modRoot)).map(path => path.substring(modRoot.length))
+    ctx.modFileTrees[modUniqueName] = modFileTree
+    await writeCacheFile(`${modCacheDir}/tree.json`, JSON.stringify(modFileTree, null, 2))
 
-/**
- * Get the file name from a path (handles both forward and backward slashes)
- */
-function getFileName(path: string): string {
-    const normalized = path.replace(/\\/g, '/')
-    return normalized.substring(normalized.lastIndexOf('/') + 1)
+    await writeCacheFile(`${modCacheDir}/source.json`, JSON.stringify(sourceInfo, null, 2))
+    return true
 }
 
 /**
- * Find files in a GitHub tree by exact file name (case-insensitive)
+ * Write a file to the mod cache, creating its directory
  */
-function findGitHubFilesByName(tree: { type: string; path?: string }[], fileName: string): any[] {
-    const lowerFileName = fileName.toLowerCase()
-    return tree.filter(file => 
-        file.type === 'blob' && 
-        getFileName(file.path || '').toLowerCase() === lowerFileName
-    )
+export async function writeCacheFile(path: string, text: string) {
+    await withCrawlStage('cache', path, (async () => {
+        await mkdir(path.substring(0, path.lastIndexOf('/')), { recursive: true })
+        await writeFile(path, text)
+    })())
 }
 
 /**
- * Find a single file in a GitHub tree by name, logging a warning if multiple copies exist
+ * Check whether a cached version was fetched from exactly the same blobs.
+ * Versions cached before blob SHAs were recorded, or from a source without SHAs, never match.
  */
-function findSingleGitHubFileByName(
-    tree: { type: string; path?: string }[],
-    fileName: string,
-    modUniqueName: string,
-    repo: string
-): string | null {
-    let files = findGitHubFilesByName(tree, fileName)
-    // HACK: Filter out Unity package manifests in a "Packages" folder which are also named manifest.json
-    if (fileName.toLowerCase() === 'manifest.json') {
-        files = files.filter(f => !(f.path || '').toLowerCase().includes('packages/'))
-    }
-    // HACK: Filter out build outputs in "bin/Debug" or "bin/Release" folders, no matter what filename we're looking for
-    files = files.filter(f => {
-        const lowerPath = (f.path || '').toLowerCase()
-        return !(lowerPath.includes('/bin/debug/') || lowerPath.includes('/bin/release/'))
-    })
-    if (files.length === 0) {
-        return null
+export async function hasSameBlobs(modCacheDir: string, blobs: Record<string, string>, fileCount: number): Promise<boolean> {
+    if (Object.keys(blobs).length !== fileCount) {
+        return false
     }
-    if (files.length > 1) {
-        const filePaths = files.map(f => f.path).join(', ')
-        console.log(`Warning: multiple ${fileName} files found for mod ${modUniqueName} in repo ${repo}, using the first one found: ${filePaths}`)
+    let cachedBlobs: Record<string, string> | undefined
+    try {
+        const cachedSource: ModSourceInfo = JSON.parse(await readFile(`${modCacheDir}/source.json`, 'utf-8'))
+        cachedBlobs = cachedSource.blobs
+    } catch {}
+    if (!cachedBlobs || Object.keys(cachedBlobs).length !== fileCount) {
+        return false
     }
-    return files[0].path
+    return Object.entries(blobs).every(([filePath, sha]) => cachedBlobs[filePath] === sha)
 }
 
 /**
- * Find files in a GitHub tree that are in a specific directory (e.g., 'planets/', 'systems/'),
- * including files in nested subdirectories. The GitHub tree is already flat and recursive.
+ * Get a file's text by its git blob SHA, reading it from the blob cache when any mod or version already fetched it.
+ * Falls back to fetching by path for sources that have no SHAs.
  */
-function findFilesInGitHubDirectory(tree: { type: string; path?: string }[], directoryName: string): any[] {
-    const normalizedDir = directoryName.toLowerCase()
-    return tree.filter(file => 
-        file.type === 'blob' && 
-        file.path?.toLowerCase().includes(normalizedDir) &&
-        file.path.toLowerCase().endsWith('.json')
-    )
+async function getBlobText(source: ModSource, owner: string, repo: string, path: string, sha: string | undefined, ref: string): Promise<string> {
+    if (!sha) {
+        return withCrawlStage('content', path, source.getTextContent(owner, repo, path, ref))
+    }
+    const blobPath = `${BLOB_CACHE_DIR}/${sha.substring(0, 2)}/${sha}`
+    try {
+        return await readFile(blobPath, 'utf-8')
+    } catch {}
+    const text = await withCrawlStage('content', path, source.getBlobText(owner, repo, sha))
+    await writeCacheFile(blobPath, text)
+    return text
 }
 
 /**
- * Extract the relative path starting from a specific directory name
+ * Cache every past version of a mod that has a git tag, so versions that were never crawled while current are not lost.
+ * Backfilled versions are only written to the cache; load them with LOAD_ALL_VERSIONS.
  */
-function getRelativePathFrom(fullPath: string, directoryName: string): string {
-    const normalized = fullPath.replace(/\\/g, '/')
-    const lowerPath = normalized.toLowerCase()
-    const lowerDir = directoryName.toLowerCase()
-    const index = lowerPath.indexOf(lowerDir)
-    if (index === -1) {
-        throw new Error(`Directory '${directoryName}' not found in path '${fullPath}'`)
+async function backfillModVersions(ctx: AnalysisContext, source: ModSource, modUniqueName: string, owner: string, repo: string, branch: string, modCacheRootDir: string) {
+    const tags = await source.getTags(owner, repo)
+    console.log(`Backfilling ${tags.length} tags for mod ${modUniqueName}`)
+    let cachedCount = 0
+    for (const tag of tags) {
+        // Tags are usually named after the version, so skip the tree and manifest requests when that version is already cached
+        const tagVersion = tag.name.replace(/^v/i, '')
+        if (await exists(`${modCacheRootDir}/${modUniqueName}/${tagVersion}`)) {
+            continue
+        }
+        try {
+            // Use a scratch context so past versions do not replace the latest configs in this run's analysis, sharing only the error ledger
+            const versionCtx = { ...createAnalysisContext(), crawlErrors: ctx.crawlErrors }
+            if (await fetchModAtCommit(versionCtx, source, modUniqueName, owner, repo, branch, tag.name, tag.commitSha, modCacheRootDir)) {
+                cachedCount++
+            }
+        } catch (e) {
+            recordCrawlError(ctx, modUniqueName, e, 'tree', { repo: `${owner}/${repo}`, ref: tag.name })
+        }
     }
-    return normalized.substring(index)
+    console.log(`Cached ${cachedCount} past versions of mod ${modUniqueName}`)
 }
 
-/**
- * Save metadata file to cache and optionally to in-memory store
- */
-async function saveMetadataFile(
-    modCacheDir: string,
-    fileName: string,
-    content: any,
-    inMemoryStore: Record<string, any>,
-    modUniqueName: string
+function parseGitHubConfigContent(
+    ctx: AnalysisContext,
+    content: string,
+    modUniqueName: string,
+    owner: string,
+    repo: string,
+    path: string,
+    tag: string | null,
+    format: ConfigFormat
 ) {
-    await writeFile(`${modCacheDir}/${fileName}`, JSON.stringify(content, null, 2))
-    inMemoryStore[modUniqueName] = content
+    const parsed = parseConfigText(content, path, format)
+    if (parsed.recoveredError) {
+        recordCrawlError(ctx, modUniqueName, parsed.recoveredError, 'parse', { repo: `${owner}/${repo}`, ...(tag ? { ref: tag } : {}) })
+    }
+    return parsed
 }
 
 /**
- * Process config files from a specific directory (planets/ or systems/)
+ * Record the repo path and JSON pointer line numbers for a cached config file
  */
-async function processGitHubConfigFiles(
-    owner: string,
-    repo: string,
-    configFiles: { path: string }[],
-    directoryName: string,
-    modCacheDir: string,
-    configStore: Record<string, Record<string, any>>,
-    modUniqueName: string
-) {
-    for (const configFile of configFiles) {
-        const configPath = configFile.path!
-        const configContent = await getGitHubJsonContent(owner, repo, configPath)
-        
-        // Save to mod cache, preserving directory structure
-        const relativePath = getRelativePathFrom(configPath, directoryName)
-        const savePath = `${modCacheDir}/${relativePath}`
-        
-        // Ensure directory exists
-        const saveDir = savePath.substring(0, savePath.lastIndexOf('/'))
-        await mkdir(saveDir, { recursive: true })
-        await writeFile(savePath, JSON.stringify(configContent, null, 2))
-        
-        // Store in in-memory cache
-        configStore[modUniqueName] = configStore[modUniqueName] || {}
-        configStore[modUniqueName][relativePath] = configContent
-    }
+function recordSourceFile(ctx: AnalysisContext, modUniqueName: string, filePath: string, repoPath: string, content: string, format: ConfigFormat) {
+    ctx.modSources[modUniqueName].files[filePath] = repoPath
+    ctx.configLines[modUniqueName][filePath] = getConfigPointerLines(content, format)
 }
 
-/** Check if a local file or directory exists */
-async function exists(path: string): Promise<boolean> {
-    try {
-        await access(path)
-        return true
-    } catch {
-        return false
+
+/**
+ * Find the single file of a config type with one file per mod, logging a warning if multiple copies exist
+ */
+function findSingleGitHubFile(
+    tree: RepoTreeEntry[],
+    configType: ModConfigType,
+    modUniqueName: string,
+    repo: string
+): string | null {
+    const files = tree.filter(file => file.type === 'blob' && configType.matches(file.path))
+    if (files.length === 0) {
+        return null
+    }
+    if (files.length > 1) {
+        const filePaths = files.map(f => f.path).join(', ')
+        console.log(`Warning: multiple ${configType.file} files found for mod ${modUniqueName} in repo ${repo}, using the first one found: ${filePaths}`)
     }
+    return files[0].path
 }
@@ -0,0 +1,630 @@
+import { mkdir, writeFile } from "node:fs/promises"
+import type { AnalysisContext } from "./context.ts"
+import { escapeHtml, getModBadgeHtml, getSourceLocationHtml } from "./html.ts"
+import { getGitHubPermalink } from "./locations.ts"
+
+/** Maximum number of dangling references rendered per kind in the HTML report; the JSON output is complete */
+const MAX_REFERENCES_PER_GROUP = 100
+
+/** Maximum number of nodes the graph view lays out at once; searching focuses it on a smaller neighborhood */
+const MAX_GRAPH_VIEW_NODES = 500
+
+/** Star system planets are placed in when they do not set starSystem */
+const DEFAULT_STAR_SYSTEM = 'SolarSystem'
+
+/**
+ * Bodies of the base game that planet configs can orbit or copy objects from without any mod defining them,
+ * by star system: name -> other names they go by, such as the name of their GameObject without the '_Body' suffix
+ */
+const BUILT_IN_BODIES: Record<string, Record<string, string[]>> = {
+    SolarSystem: {
+        'Sun': [],
+        'Sun Station': [],
+        'Hourglass Twins': ['FocalBody'],
+        'Ash Twin': ['TowerTwin'],
+        'Ember Twin': ['CaveTwin'],
+        'Timber Hearth': [],
+        'Attlerock': ['Moon', 'TimberMoon'],
+        'Brittle Hollow': [],
+        "Hollow's Lantern": ['VolcanicMoon'],
+        "Giant's Deep": [],
+        'Orbital Probe Cannon': ['ProbeCannon'],
+        'Dark Bramble': [],
+        'Interloper': ['Comet'],
+        'White Hole': [],
+        'White Hole Station': ['WhiteholeStation'],
+        'Quantum Moon': [],
+        'Stranger': ['RingWorld'],
+        'Dream World': [],
+        'Map Satellite': ['HearthianMapSatellite', 'Satellite'],
+    },
+    EyeOfTheUniverse: {
+        'Eye of the Universe': ['Eye'],
+        'Vessel': [],
+    },
+}
+
+/** Base game objects with a '_Body' GameObject that are not celestial bodies, so details copied from them are not cross-body references */
+const BUILT_IN_NON_BODY_OBJECTS = ['Ship', 'Player', 'Probe', 'Shuttle', 'ModelRocket']
+
+export type GraphNodeKind = 'mod' | 'system' | 'body'
+
+/** How one node refers to another: a mod depending on or conflicting with a mod, a mod defining a system or body, a body placed in a system, orbiting a body or copying objects from one */
+export type GraphEdgeKind = 'dependency' | 'conflict' | 'defines' | 'star-system' | 'primary-body' | 'detail'
+
+export interface GraphNode {
+    id: string // 'mod:{uniqueName}', 'system:{name}' or 'body:{system}/{normalized name}'
+    kind: GraphNodeKind
+    label: string
+    mods: string[] // mods defining it: the mod itself, mods with a config for the system or bodies in it, or mods with a planet config for the body
+    builtIn?: boolean // part of the base game, so it exists without any mod defining it
+}
+
+export interface GraphEdge {
+    from: string
+    to: string
+    kind: GraphEdgeKind
+    count: number // number of references, e.g. details copied from the same body
+}
+
+export interface DanglingReference {
+    kind: GraphEdgeKind
+    modName: string
+    file: string
+    pointer: string // JSON pointer of the reference
+    line?: number
+    url?: string
+    target: string // the name as written in the config
+    message: string
+}
+
+export interface SharedSystem {
+    system: string
+    mods: Record<string, number> // Mod UniqueName -> number of bodies it places in the system
+}
+
+export interface ReferenceGraph {
+    nodes: GraphNode[]
+    edges: GraphEdge[]
+    dangling: DanglingReference[]
+    sharedSystems: SharedSystem[] // systems other than the base game's that several mods populate
+}
+
+/**
+ * Resolve the references between mods, star systems and bodies across every loaded mod,
+ * writing the graph, its dangling references and the systems shared by several mods to analysis/graph/
+ */
+export async function analyzeReferenceGraph(ctx: AnalysisContext, analysisOutputDir: string): Promise<ReferenceGraph> {
+    console.log('Building reference graph...')
+    const nodes = new Map<string, GraphNode>()
+    const edges = new Map<string, GraphEdge>()
+    const dangling: DanglingReference[] = []
+    const systemPopulations = new Map<string, Record<string, number>>() // system -> Mod UniqueName -> bodies
+
+    const addNode = (id: string, kind: GraphNodeKind, label: string): GraphNode => {
+        if (!nodes.has(id)) {
+            nodes.set(id, { id, kind, label, mods: [] })
+        }
+        return nodes.get(id)!
+    }
+    const addDefiningMod = (node: GraphNode, modName: string) => {
+        if (!node.mods.includes(modName)) {
+            node.mods.push(modName)
+        }
+    }
+    const addEdge = (from: string, to: string, kind: GraphEdgeKind) => {
+        const key = `${kind} ${from} ${to}`
+        if (!edges.has(key)) {
+            edges.set(key, { from, to, kind, count: 0 })
+        }
+        edges.get(key)!.count++
+    }
+    const addDangling = (reference: Omit<DanglingReference, 'line' | 'url'>) => {
+        const line = ctx.configLines[reference.modName]?.[reference.file]?.[reference.pointer]
+        const source = ctx.modSources[reference.modName]
+        const url = source ? getGitHubPermalink(source, reference.file, line) : null
+        dangling.push({ ...reference, ...(line ? { line } : {}), ...(url ? { url } : {}) })
+    }
+    const addSystem = (system: string): GraphNode => {
+        const node = addNode(getSystemId(system), 'system', system)
+        if (BUILT_IN_BODIES[system]) {
+            node.builtIn = true
+        }
+        return node
+    }
+    const addBody = (system: string, name: string): GraphNode => {
+        const builtInName = findBuiltInBody(system, name)
+        const node = addNode(getBodyId(system, builtInName ?? name), 'body', builtInName ?? name)
+        if (builtInName && !node.builtIn) {
+            node.builtIn = true
+            addEdge(node.id, addSystem(system).id, 'star-system')
+        }
+        return node
+    }
+    // A body is defined if a mod has a planet config for it or it is part of the base game
+    const resolveBody = (system: string, name: string): GraphNode | null => {
+        const node = nodes.get(getBodyId(system, findBuiltInBody(system, name) ?? name))
+        if (node && node.mods.length > 0) {
+            return node
+        }
+        return findBuiltInBody(system, name) ? addBody(system, name) : null
+    }
+
+    const modNames = Object.keys(ctx.manifestConfigs).sort()
+    for (const modName of modNames) {
+        addDefiningMod(addNode(getModId(modName), 'mod', modName), modName)
+    }
+    for (const modName of modNames) {
+        const manifest = ctx.manifestConfigs[modName]
+        for (const [index, dependency] of getStringArray(manifest?.dependencies)) {
+            addNode(getModId(dependency), 'mod', dependency)
+            addEdge(getModId(modName), getModId(dependency), 'dependency')
+            if (!ctx.manifestConfigs[dependency]) {
+                addDangling({
+                    kind: 'dependency',
+                    modName,
+                    file: 'manifest.json',
+                    pointer: `/dependencies/${index}`,
+                    target: dependency,
+                    message: `depends on ${dependency}, which is not loaded`,
+                })
+            }
+        }
+        // Conflicting with a mod that is not loaded is harmless, so those are not dangling
+        for (const [, conflict] of getStringArray(manifest?.conflicts)) {
+            addNode(getModId(conflict), 'mod', conflict)
+            addEdge(getModId(modName), getModId(conflict), 'conflict')
+        }
+    }
+
+    // Star system configs are named after their system, e.g. systems/Jam3.json
+    for (const modName of Object.keys(ctx.systemConfigs).sort()) {
+        for (const filePath of Object.keys(ctx.systemConfigs[modName] ?? {}).sort()) {
+            const system = getSystemName(filePath)
+            addDefiningMod(addSystem(system), modName)
+            addEdge(getModId(modName), getSystemId(system), 'defines')
+            systemPopulations.set(system, systemPopulations.get(system) ?? {})
+            systemPopulations.get(system)![modName] = systemPopulations.get(system)![modName] ?? 0
+        }
+    }
+
+    // Every body is defined before any reference is resolved, so references do not depend on the order mods load in
+    const planets = getPlanets(ctx)
+    for (const { modName, data } of planets) {
+        const system = getStarSystem(data)
+        const body = addBody(system, data.name)
+        addDefiningMod(body, modName)
+        addDefiningMod(addSystem(system), modName)
+        addEdge(getModId(modName), body.id, 'defines')
+        if (!body.builtIn) {
+            addEdge(body.id, getSystemId(system), 'star-system')
+        }
+        const population = systemPopulations.get(system) ?? {}
+        population[modName] = (population[modName] ?? 0) + 1
+        systemPopulations.set(system, population)
+    }
+
+    for (const { modName, filePath, data } of planets) {
+        const system = getStarSystem(data)
+        const bodyId = getBodyId(system, findBuiltInBody(system, data.name) ?? data.name)
+
+        const primaryBody = data.Orbit?.primaryBody
+        if (typeof primaryBody === 'string' && primaryBody.trim() !== '') {
+            const target = resolveBody(system, primaryBody)
+            addEdge(bodyId, (target ?? addBody(system, primaryBody)).id, 'primary-body')
+            if (!target) {
+                addDangling({
+                    kind: 'primary-body',
+                    modName,
+                    file: filePath,
+                    pointer: '/Orbit/primaryBody',
+                    target: primaryBody,
+                    message: `orbits ${primaryBody}, which no loaded mod defines in ${system}`,
+                })
+            }
+        }
+
+        // Details copied from another body's objects start with its GameObject, e.g. TimberHearth_Body/Sector_TH/...
+        const details = Array.isArray(data.Props?.details) ? data.Props.details : []
+        for (const [index, detail] of details.entries()) {
+            if (!detail || typeof detail.path !== 'string' || detail.assetBundle) continue
+            const root = detail.path.replace(/\\/g, '/').split('/')[0]
+            if (!root.endsWith('_Body')) continue
+            const targetName = root.substring(0, root.length - '_Body'.length)
+            if (BUILT_IN_NON_BODY_OBJECTS.includes(targetName)) continue
+
+            const target = resolveBody(system, targetName) ?? findBodyInAnySystem(nodes, targetName)
+            addEdge(bodyId, (target ?? addBody(system, targetName)).id, 'detail')
+            if (!target) {
+                addDangling({
+                    kind: 'detail',
+                    modName,
+                    file: filePath,
+                    pointer: `/Props/details/${index}/path`,
+                    target: root,
+                    message: `copies ${detail.path} from ${root}, which no loaded mod or the base game defines`,
+                })
+            }
+        }
+    }
+
+    const sharedSystems: SharedSystem[] = Array.from(systemPopulations.entries())
+        .filter(([system, mods]) => !BUILT_IN_BODIES[system] && Object.keys(mods).length > 1)
+        .map(([system, mods]) => ({ system, mods }))
+        .sort((a, b) => Object.keys(b.mods).length - Object.keys(a.mods).length || a.system.localeCompare(b.system))
+
+    const graph: ReferenceGraph = {
+        nodes: Array.from(nodes.values()).sort((a, b) => a.id.localeCompare(b.id)),
+        edges: Array.from(edges.values()).sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to) || a.kind.localeCompare(b.kind)),
+        dangling,
+        sharedSystems,
+    }
+
+    const graphOutputDir = `${analysisOutputDir}/graph`
+    await mkdir(graphOutputDir, { recursive: true })
+    await writeFile(`${graphOutputDir}/reference-graph.json`, JSON.stringify({ nodes: graph.nodes, edges: graph.edges }, null, 2))
+    await writeFile(`${graphOutputDir}/dangling-references.json`, JSON.stringify(graph.dangling, null, 2))
+    await writeFile(`${graphOutputDir}/shared-systems.json`, JSON.stringify(graph.sharedSystems, null, 2))
+
+    console.log(`  ${graph.nodes.length} nodes, ${graph.edges.length} edges, ${graph.dangling.length} dangling references, ${graph.sharedSystems.length} shared systems`)
+    return graph
+}
+
+/** Planet configs with a name, which is what other configs refer to them by, sorted by mod and file */
+function getPlanets(ctx: AnalysisContext): { modName: string, filePath: string, data: any }[] {
+    const planets = []
+    for (const modName of Object.keys(ctx.planetConfigs).sort()) {
+        for (const filePath of Object.keys(ctx.planetConfigs[modName] ?? {}).sort()) {
+            const data = ctx.planetConfigs[modName][filePath]
+            if (data && typeof data.name === 'string' && data.name.trim() !== '') {
+                planets.push({ modName, filePath, data })
+            }
+        }
+    }
+    return planets
+}
+
+function getStarSystem(planet: any): string {
+    return typeof planet.starSystem === 'string' && planet.starSystem.trim() !== '' ? planet.starSystem : DEFAULT_STAR_SYSTEM
+}
+
+/** The system a star system config configures: its file name without the extension */
+function getSystemName(filePath: string): string {
+    const fileName = filePath.substring(filePath.lastIndexOf('/') + 1)
+    return fileName.replace(/\.json$/i, '')
+}
+
+/** The string items of a manifest list, with their indices */
+function getStringArray(value: unknown): [number, string][] {
+    return Array.isArray(value)
+        ? Array.from(value.entries()).filter((entry): entry is [number, string] => typeof entry[1] === 'string')
+        : []
+}
+
+/**
+ * Normalize a body name the way references to it are matched: ignoring case, spaces, apostrophes and underscores,
+ * so 'Giant's Deep', 'GiantsDeep' and the GameObject name 'GiantsDeep_Body' without its suffix all match
+ */
+function normalizeBodyName(name: string): string {
+    return name.replace(/[\s'_]/g, '').toLowerCase()
+}
+
+/** The name of a base game body in a system that a name refers to, if any */
+function findBuiltInBody(system: string, name: string): string | null {
+    const normalized = normalizeBodyName(name)
+    for (const [builtInName, aliases] of Object.entries(BUILT_IN_BODIES[system] ?? {})) {
+        if ([builtInName, ...aliases].some(alias => normalizeBodyName(alias) === normalized)) {
+            return builtInName
+        }
+    }
+    return null
+}
+
+/** A body defined by a mod in another star system, for details copied across systems */
+function findBodyInAnySystem(nodes: Map<string, GraphNode>, name: string): GraphNode | null {
+    const suffix = `/${normalizeBodyName(name)}`
+    for (const node of nodes.values()) {
+        if (node.kind === 'body' && node.mods.length > 0 && node.id.endsWith(suffix)) {
+            return node
+        }
+    }
+    return null
+}
+
+function getModId(modName: string): string {
+    return `mod:${modName}`
+}
+
+function getSystemId(system: string): string {
+    return `system:${system}`
+}
+
+function getBodyId(system: string, name: string): string {
+    return `body:${system}/${normalizeBodyName(name)}`
+}
+
+/**
+ * Render the reference graph as a collapsible section of the HTML report: an interactive graph view,
+ * followed by the dangling references grouped by kind and the systems shared by several mods
+ */
+export function getReferenceGraphHtml(graph: ReferenceGraph): string {
+    const danglingByKind = new Map<GraphEdgeKind, DanglingReference[]>()
+    for (const reference of graph.dangling) {
+        if (!danglingByKind.has(reference.kind)) {
+            danglingByKind.set(reference.kind, [])
+        }
+        danglingByKind.get(reference.kind)!.push(reference)
+    }
+
+    const danglingHtml = Array.from(danglingByKind.entries()).map(([kind, references]) => {
+        const shownReferences = references.slice(0, MAX_REFERENCES_PER_GROUP)
+        const hiddenCount = references.length - shownReferences.length
+        const modCount = new Set(references.map(reference => reference.modName)).size
+        return `
+            <div class="field">
+                <div class="field-header collapsed">
+                    <span class="field-toggle">▼</span>
+                    <span class="field-name">${escapeHtml(kind)}</span>
+                    <span style="margin-left: auto; font-size: 0.85em; font-weight: normal; color: #999;">${references.length} reference${references.length !== 1 ? 's' : ''}, ${modCount} mod${modCount !== 1 ? 's' : ''}</span>
+                </div>
+                <div class="field-values collapsed">
+                    ${shownReferences.map(reference => `
+                        <div class="issue-item">
+                            ${getModBadgeHtml(reference.modName, reference.url)}
+                            <span class="issue-message">${escapeHtml(reference.message)}</span>
+                            ${getSourceLocationHtml(reference)}
+                        </div>
+                    `).join('')}
+                    ${hiddenCount > 0 ? `<p class="section-note">…and ${hiddenCount} more</p>` : ''}
+                </div>
+            </div>
+        `
+    }).join('')
+
+    const sharedSystemsHtml = graph.sharedSystems.map(shared => `
+        <div class="issue-item">
+            <span class="field-name">${escapeHtml(shared.system)}</span>
+            <span class="issue-message">populated by ${Object.keys(shared.mods).length} mods</span>
+            <div class="mod-list">
+                ${Object.entries(shared.mods).map(([modName, bodies]) => `${getModBadgeHtml(modName, undefined)}<span class="field-type">${bodies} bodies</span>`).join('')}
+            </div>
+        </div>
+    `).join('')
+
+    // The graph data is embedded as JSON, escaping '<' so a name cannot close the script element
+    const graphData = JSON.stringify({ nodes: graph.nodes, edges: graph.edges }).replace(/</g, '\\u003c')
+
+    return `
+        <div class="config-type">
+            <div class="config-type-header collapsed">
+                <span class="toggle-icon">▼</span>
+                <span>Reference Graph</span>
+                <span style="margin-left: auto; font-size: 0.85em; font-weight: normal; color: #999;">${graph.nodes.length} nodes, ${graph.dangling.length} dangling references, ${graph.sharedSystems.length} shared systems</span>
+            </div>
+            <div class="config-type-content collapsed">
+                <div class="reference-graph-controls">
+                    <input type="search" id="reference-graph-search" placeholder="Focus on a mod, system or body">
+                    <label><input type="checkbox" class="reference-graph-kind" value="mod" checked> mods</label>
+                    <label><input type="checkbox" class="reference-graph-kind" value="system" checked> systems</label>
+                    <label><input type="checkbox" class="reference-graph-kind" value="body" checked> bodies</label>
+                    <span id="reference-graph-status" class="section-note"></span>
+                </div>
+                <svg id="reference-graph" class="reference-graph" viewBox="0 0 1000 700"><g></g></svg>
+                <p class="section-note">Drag nodes to move them, scroll to zoom, and click a node to focus on its neighbors. Red nodes are referenced but not defined by any loaded mod.</p>
+                <script type="application/json" id="reference-graph-data">${graphData}</script>
+                <script>${getGraphViewScript()}</script>
+                <h3 class="section-subheader">Dangling references</h3>
+                ${danglingHtml || '<p class="section-note">Every reference resolves to a loaded mod or the base game.</p>'}
+                <h3 class="section-subheader">Shared systems</h3>
+                ${sharedSystemsHtml || '<p class="section-note">No star system is populated by more than one mod.</p>'}
+            </div>
+        </div>
+    `
+}
+
+/**
+ * Script for the graph view: a force-directed layout of the visible nodes, drawn into the section's SVG
+ */
+function getGraphViewScript(): string {
+    return `
+        (function () {
+            var SVG_NS = 'http://www.w3.org/2000/svg';
+            var WIDTH = 1000;
+            var HEIGHT = 700;
+            var MAX_NODES = ${MAX_GRAPH_VIEW_NODES};
+            var data = JSON.parse(document.getElementById('reference-graph-data').textContent);
+            var svg = document.getElementById('reference-graph');
+            var layer = svg.querySelector('g');
+            var search = document.getElementById('reference-graph-search');
+            var status = document.getElementById('reference-graph-status');
+            var kindInputs = Array.from(document.querySelectorAll('.reference-graph-kind'));
+            var viewBox = { x: 0, y: 0, width: WIDTH, height: HEIGHT };
+            var nodes = [];
+            var edges = [];
+            var frame = null;
+            var dragged = null;
+
+            // Spread the nodes on a spiral, so the layout starts the same way on every load
+            data.nodes.forEach((node, index) => {
+                var angle = index * 2.4;
+                var radius = 12 * Math.sqrt(index);
+                node.x = WIDTH / 2 + radius * Math.cos(angle);
+                node.y = HEIGHT / 2 + radius * Math.sin(angle);
+            });
+
+            function getVisibleIds() {
+                var kinds = kindInputs.filter(input => input.checked).map(input => input.value);
+                var ids = new Set(data.nodes.filter(node => kinds.includes(node.kind)).map(node => node.id));
+                var query = search.value.trim().toLowerCase();
+                if (!query) {
+                    return ids;
+                }
+                var focused = new Set(data.nodes.filter(node => ids.has(node.id) && node.label.toLowerCase().includes(query)).map(node => node.id));
+                var shown = new Set(focused);
+                data.edges.forEach(edge => {
+                    if (!ids.has(edge.from) || !ids.has(edge.to)) return;
+                    if (focused.has(edge.from)) shown.add(edge.to);
+                    if (focused.has(edge.to)) shown.add(edge.from);
+                });
+                return shown;
+            }
+
+            function update() {
+                var ids = getVisibleIds();
+                var visible = data.nodes.filter(node => ids.has(node.id));
+                nodes = visible.slice(0, MAX_NODES);
+                status.textContent = visible.length > MAX_NODES
+                    ? 'Showing ' + MAX_NODES + ' of ' + visible.length + ' nodes, search to focus on fewer'
+                    : visible.length + ' nodes';
+                var byId = new Map(nodes.map(node => [node.id, node]));
+                edges = data.edges
+                    .filter(edge => byId.has(edge.from) && byId.has(edge.to))
+                    .map(edge => ({ edge: edge, source: byId.get(edge.from), target: byId.get(edge.to) }));
+
+                layer.textContent = '';
+                edges.forEach(link => {
+                    link.element = document.createElementNS(SVG_NS, 'line');
+                    link.element.setAttribute('class', 'graph-edge ' + link.edge.kind);
+                    layer.appendChild(link.element);
+                });
+                nodes.forEach(node => {
+                    var group = document.createElementNS(SVG_NS, 'g');
+                    var undefinedNode = node.mods.length === 0 && !node.builtIn;
+                    group.setAttribute('class', 'graph-node ' + node.kind + (undefinedNode ? ' undefined' : '') + (node.builtIn ? ' built-in' : ''));
+                    var circle = document.createElementNS(SVG_NS, 'circle');
+                    circle.setAttribute('r', node.kind === 'body' ? 5 : 8);
+                    var label = document.createElementNS(SVG_NS, 'text');
+                    label.setAttribute('x', 10);
+                    label.setAttribute('y', 4);
+                    label.textContent = node.label;
+                    var title = document.createElementNS(SVG_NS, 'title');
+                    title.textContent = node.kind + ' ' + node.label + (node.mods.length > 0 ? '\\n' + node.mods.join('\\n') : '');
+                    group.appendChild(circle);
+                    group.appendChild(label);
+                    group.appendChild(title);
+                    group.addEventListener('mouseenter', () => highlight(node));
+                    group.addEventListener('mouseleave', () => highlight(null));
+                    group.addEventListener('mousedown', event => {
+                        event.preventDefault();
+                        dragged = { node: node, moved: false };
+                    });
+                    node.element = group;
+                    layer.appendChild(group);
+                });
+                simulate();
+            }
+
+            function highlight(node) {
+                svg.classList.toggle('hovering', !!node);
+                var neighbors = new Set(node ? [node] : []);
+                edges.forEach(link => {
+                    var touches = !!node && (link.source === node || link.target === node);
+                    link.element.classList.toggle('highlighted', touches);
+                    if (touches) {
+                        neighbors.add(link.source);
+                        neighbors.add(link.target);
+                    }
+                });
+                nodes.forEach(other => other.element.classList.toggle('highlighted', neighbors.has(other)));
+            }
+
+            // Fruchterman-Reingold: nodes repel each other, edges pull their ends together, and moves shrink as it cools
+            function simulate() {
+                if (frame) cancelAnimationFrame(frame);
+                var k = Math.sqrt(WIDTH * HEIGHT / Math.max(nodes.length, 1));
+                var temperature = WIDTH / 10;
+                var steps = 300;
+                function step() {
+                    nodes.forEach(node => { node.dx = 0; node.dy = 0; });
+                    for (var i = 0; i < nodes.length; i++) {
+                        for (var j = i + 1; j < nodes.length; j++) {
+                            var a = nodes[i];
+                            var b = nodes[j];
+                            var dx = a.x - b.x;
+                            var dy = a.y - b.y;
+                            var distance = Math.max(Math.sqrt(dx * dx + dy * dy), 0.01);
+                            var force = k * k / distance;
+                            a.dx += dx / distance * force;
+                            a.dy += dy / distance * force;
+                            b.dx -= dx / distance * force;
+                            b.dy -= dy / distance * force;
+                        }
+                    }
+                    edges.forEach(link => {
+                        var dx = link.source.x - link.target.x;
+                        var dy = link.source.y - link.target.y;
+                        var distance = Math.max(Math.sqrt(dx * dx + dy * dy), 0.01);
+                        var force = distance * distance / k;
+                        link.source.dx -= dx / distance * force;
+                        link.source.dy -= dy / distance * force;
+                        link.target.dx += dx / distance * force;
+                        link.target.dy += dy / distance * force;
+                    });
+                    nodes.forEach(node => {
+                        if (dragged && dragged.node === node) return;
+                        // A little gravity keeps disconnected nodes from drifting off
+                        node.dx += (WIDTH / 2 - node.x) * 0.05;
+                        node.dy += (HEIGHT / 2 - node.y) * 0.05;
+                        var length = Math.max(Math.sqrt(node.dx * node.dx + node.dy * node.dy), 0.01);
+                        node.x += node.dx / length * Math.min(length, temperature);
+                        node.y += node.dy / length * Math.min(length, temperature);
+                    });
+                    temperature = Math.max(temperature * 0.98, 1);
+                    draw();
+                    if (--steps > 0) {
+                        frame = requestAnimationFrame(step);
+                    }
+                }
+                step();
+            }
+
+            function draw() {
+                edges.forEach(link => {
+                    link.element.setAttribute('x1', link.source.x);
+                    link.element.setAttribute('y1', link.source.y);
+                    link.element.setAttribute('x2', link.target.x);
+                    link.element.setAttribute('y2', link.target.y);
+                });
+                nodes.forEach(node => node.element.setAttribute('transform', 'translate(' + node.x + ',' + node.y + ')'));
+            }
+
+            function getSvgPoint(event) {
+                var point = svg.createSVGPoint();
+                point.x = event.clientX;
+                point.y = event.clientY;
+                return point.matrixTransform(svg.getScreenCTM().inverse());
+            }
+
+            svg.addEventListener('mousemove', event => {
+                if (!dragged) return;
+                var point = getSvgPoint(event);
+                dragged.node.x = point.x;
+                dragged.node.y = point.y;
+                dragged.moved = true;
+                draw();
+            });
+            window.addEventListener('mouseup', () => {
+                // A click without a drag focuses the graph on the node and its neighbors
+                if (dragged && !dragged.moved) {
+                    search.value = dragged.node.label;
+                    update();
+                }
+                dragged = null;
+            });
+            svg.addEventListener('wheel', event => {
+                event.preventDefault();
+                var point = getSvgPoint(event);
+                var scale = event.deltaY > 0 ? 1.1 : 1 / 1.1;
+                viewBox.x = point.x - (point.x - viewBox.x) * scale;
+                viewBox.y = point.y - (point.y - viewBox.y) * scale;
+                viewBox.width *= scale;
+                viewBox.height *= scale;
+                svg.setAttribute('viewBox', viewBox.x + ' ' + viewBox.y + ' ' + viewBox.width + ' ' + viewBox.height);
+            }, { passive: false });
+            search.addEventListener('input', update);
+            kindInputs.forEach(input => input.addEventListener('change', update));
+
+            update();
+        })();
+    `
+}
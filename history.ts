@@ -0,0 +1,139 @@
+import { mkdir, writeFile } from "node:fs/promises"
+import { extractFieldsFromJson } from "./analysis.ts"
+import { listConfigFiles, type AnalysisContext } from "./context.ts"
+import type { DynamicKeyRule } from "./dynamic-keys.ts"
+import { escapeHtml } from "./html.ts"
+
+export interface FieldVersionHistory {
+    firstVersion: string // earliest cached version that uses the field
+    lastVersion: string // latest cached version that uses the field
+    droppedInVersion: string | null // first version after lastVersion, if the field is no longer used in the newest version
+    versions: string[] // every cached version that uses the field, oldest first
+}
+
+/** Config type -> field path -> Mod UniqueName -> history */
+export type FieldHistoryReport = Record<string, Record<string, Record<string, FieldVersionHistory>>>
+
+/**
+ * Track which version of each mod first used each field and which version dropped it,
+ * writing analysis/{type}/field-history.json. Requires every cached version to be loaded (LOAD_ALL_VERSIONS).
+ * Older versions are extracted with the dynamic key rules of the current analysis, so their field paths match it.
+ */
+export async function analyzeFieldHistory(ctx: AnalysisContext, analysisOutputDir: string, dynamicKeyRules: Record<string, DynamicKeyRule[]>): Promise<FieldHistoryReport | null> {
+    if (Object.keys(ctx.modVersions).length === 0) {
+        return null
+    }
+    console.log('Analyzing field history across mod versions...')
+    const report: FieldHistoryReport = {}
+
+    for (const [modName, versionContexts] of Object.entries(ctx.modVersions)) {
+        const versions = Object.keys(versionContexts).sort(compareModVersions)
+
+        // Config type -> field path -> versions using it
+        const fieldVersions: Record<string, Record<string, string[]>> = {}
+        for (const version of versions) {
+            const versionFields: Record<string, Set<string>> = {}
+            for (const { configType, data } of listConfigFiles(versionContexts[version])) {
+                versionFields[configType] = versionFields[configType] || new Set()
+                for (const fieldPath of extractFieldsFromJson(data, dynamicKeyRules[configType] ?? []).keys()) {
+                    versionFields[configType].add(fieldPath)
+                }
+            }
+            for (const [configType, fieldPaths] of Object.entries(versionFields)) {
+                fieldVersions[configType] = fieldVersions[configType] || {}
+                for (const fieldPath of fieldPaths) {
+                    fieldVersions[configType][fieldPath] = fieldVersions[configType][fieldPath] || []
+                    fieldVersions[configType][fieldPath].push(version)
+                }
+            }
+        }
+
+        for (const [configType, fields] of Object.entries(fieldVersions)) {
+            report[configType] = report[configType] || {}
+            for (const [fieldPath, presentIn] of Object.entries(fields)) {
+                const lastVersion = presentIn[presentIn.length - 1]
+                const nextVersion = versions[versions.indexOf(lastVersion) + 1]
+                report[configType][fieldPath] = report[configType][fieldPath] || {}
+                report[configType][fieldPath][modName] = {
+                    firstVersion: presentIn[0],
+                    lastVersion,
+                    droppedInVersion: nextVersion ?? null,
+                    versions: presentIn,
+                }
+            }
+        }
+    }
+
+    for (const [configType, fields] of Object.entries(report)) {
+        const typeOutputDir = `${analysisOutputDir}/${configType}`
+        await mkdir(typeOutputDir, { recursive: true })
+        await writeFile(`${typeOutputDir}/field-history.json`, JSON.stringify(sortObjectKeys(fields), null, 2))
+    }
+
+    return report
+}
+
+/**
+ * Compare version strings numerically segment by segment (so 1.10.0 sorts after 1.9.0), falling back to text comparison
+ */
+export function compareModVersions(a: string, b: string): number {
+    const aParts = a.split(/[^0-9]+/).filter(Boolean).map(Number)
+    const bParts = b.split(/[^0-9]+/).filter(Boolean).map(Number)
+    for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+        const diff = (aParts[i] ?? 0) - (bParts[i] ?? 0)
+        if (diff !== 0) {
+            return diff
+        }
+    }
+    return a.localeCompare(b)
+}
+
+function sortObjectKeys<T>(obj: Record<string, T>): Record<string, T> {
+    return Object.fromEntries(Object.entries(obj).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+/**
+ * Render fields whose usage changed between versions as a collapsible section of the HTML report
+ */
+export function getFieldHistoryHtml(report: FieldHistoryReport, ctx: AnalysisContext): string {
+    let changeCount = 0
+    const typesHtml = Object.entries(report)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([configType, fields]) => {
+            const rowsHtml = Object.entries(fields)
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([fieldPath, mods]) => {
+                    // Only fields that were adopted after a mod's first cached version or dropped before its latest are interesting
+                    const changes = Object.entries(mods).flatMap(([modName, history]) => {
+                        const modVersions = Object.keys(ctx.modVersions[modName] ?? {}).sort(compareModVersions)
+                        const labels: string[] = []
+                        if (history.firstVersion !== modVersions[0]) labels.push(`added in ${history.firstVersion}`)
+                        if (history.droppedInVersion) labels.push(`dropped in ${history.droppedInVersion}`)
+                        return labels.length > 0 ? [`<span class="mod-badge">${escapeHtml(modName)}: ${escapeHtml(labels.join(', '))}</span>`] : []
+                    })
+                    changeCount += changes.length
+                    return changes.length > 0
+                        ? `<div class="issue-item"><span class="field-name">${escapeHtml(fieldPath)}</span><div class="mod-list">${changes.join('')}</div></div>`
+                        : ''
+                })
+                .join('')
+            return `
+                <h3 class="section-subheader">${escapeHtml(configType)}</h3>
+                ${rowsHtml || '<p class="section-note">No fields were added or dropped between versions.</p>'}
+            `
+        })
+        .join('')
+
+    return `
+        <div class="config-type">
+            <div class="config-type-header collapsed">
+                <span class="toggle-icon">▼</span>
+                <span>Field History</span>
+                <span style="margin-left: auto; font-size: 0.85em; font-weight: normal; color: #999;">${changeCount} changes across ${Object.keys(ctx.modVersions).length} mods</span>
+            </div>
+            <div class="config-type-content collapsed">
+                ${typesHtml}
+            </div>
+        </div>
+    `
+}
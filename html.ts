@@ -0,0 +1,32 @@
+/**
+ * Escape HTML special characters
+ */
+export function escapeHtml(text: string): string {
+    const map: Record<string, string> = {
+        '&': '&amp;',
+        '<': '&lt;',
+        '>': '&gt;',
+        '"': '&quot;',
+        "'": '&#039;'
+    }
+    return text.replace(/[&<>"']/g, char => map[char])
+}
+
+/**
+ * Render a mod badge, linking to the mod's source on GitHub when a permalink is known
+ */
+export function getModBadgeHtml(modName: string, url: string | undefined): string {
+    return url
+        ? `<a class="mod-badge" href="${escapeHtml(url)}" target="_blank" rel="noopener">${escapeHtml(modName)}</a>`
+        : `<span class="mod-badge">${escapeHtml(modName)}</span>`
+}
+
+/**
+ * Render a single file location, as a permalink when one is known
+ */
+export function getSourceLocationHtml(source: { file: string, pointer: string, line?: number, url?: string }): string {
+    const location = `${escapeHtml(source.file)}${source.line ? `:${source.line}` : ''} <span class="value-pointer">${escapeHtml(source.pointer)}</span>`
+    return source.url
+        ? `<a class="value-source" href="${escapeHtml(source.url)}" target="_blank" rel="noopener">${location}</a>`
+        : `<div class="value-source">${location}</div>`
+}
@@ -0,0 +1,189 @@
+import { mkdir, writeFile } from "node:fs/promises"
+import type { PerFieldSummary } from "./analysis.ts"
+import { joinFieldPath, splitFieldPath } from "./field-paths.ts"
+import { escapeHtml, getModBadgeHtml } from "./html.ts"
+import { getSchemaChild, getSchemaChildKeys, loadSchema } from "./schema.ts"
+
+/** Keys that are meaningful to editors and tooling rather than New Horizons, and never flagged */
+const IGNORED_KEYS = new Set(['$schema'])
+
+export interface UnknownField {
+    fieldPath: string // shallowest undeclared path; deeper fields below it are folded into this entry
+    kind: 'unknown' | 'case-mismatch' // case mismatches still load, since New Horizons reads configs case-insensitively
+    suggestion: string | null // closest declared field path, if one is close enough to be a likely typo
+    distance: number | null // edit distance between the undeclared key and the suggested key
+    mods: UnknownFieldModInfo[]
+}
+
+export interface UnknownFieldModInfo {
+    modName: string
+    files: string[]
+    url?: string // permalink to the first occurrence
+}
+
+/**
+ * Flag field paths that are not declared in the relevant schema and suggest the closest valid field,
+ * writing analysis/{type}/unknown-fields.json for each config type that has a vendored schema
+ */
+export async function analyzeFieldHygiene(
+    perFieldSummaries: Record<string, Record<string, PerFieldSummary>>,
+    analysisOutputDir: string
+): Promise<Record<string, UnknownField[]>> {
+    console.log('Checking field hygiene against schemas...')
+    const report: Record<string, UnknownField[]> = {}
+
+    for (const [configTypeName, fields] of Object.entries(perFieldSummaries)) {
+        const schema = await loadSchema(configTypeName)
+        if (!schema) continue
+
+        const unknownFields = new Map<string, UnknownField>()
+        for (const [fieldPath, summary] of Object.entries(fields)) {
+            const finding = checkFieldPath(schema, fieldPath)
+            if (!finding) continue
+
+            if (!unknownFields.has(finding.fieldPath)) {
+                unknownFields.set(finding.fieldPath, { ...finding, mods: [] })
+            }
+            const unknownField = unknownFields.get(finding.fieldPath)!
+            for (const mod of summary.mods) {
+                let modInfo = unknownField.mods.find(m => m.modName === mod.modName)
+                if (!modInfo) {
+                    modInfo = { modName: mod.modName, files: [] }
+                    unknownField.mods.push(modInfo)
+                }
+                for (const occurrence of mod.occurrences) {
+                    if (!modInfo.files.includes(occurrence.file)) {
+                        modInfo.files.push(occurrence.file)
+                    }
+                    if (!modInfo.url && occurrence.url) {
+                        modInfo.url = occurrence.url
+                    }
+                }
+            }
+        }
+
+        const sortedFields = Array.from(unknownFields.values())
+            .sort((a, b) => b.mods.length - a.mods.length || a.fieldPath.localeCompare(b.fieldPath))
+        for (const field of sortedFields) {
+            field.mods.sort((a, b) => a.modName.localeCompare(b.modName))
+            for (const mod of field.mods) {
+                mod.files.sort()
+            }
+        }
+        report[configTypeName] = sortedFields
+
+        const typeOutputDir = `${analysisOutputDir}/${configTypeName}`
+        await mkdir(typeOutputDir, { recursive: true })
+        await writeFile(`${typeOutputDir}/unknown-fields.json`, JSON.stringify(sortedFields, null, 2))
+        console.log(`  ${configTypeName}: ${sortedFields.length} undeclared fields`)
+    }
+
+    return report
+}
+
+/**
+ * Walk a dotted field path through the schema and report the first segment that is not declared
+ */
+function checkFieldPath(schema: any, fieldPath: string): Omit<UnknownField, 'mods'> | null {
+    if (fieldPath === '[root]') {
+        return null
+    }
+    const segments = splitFieldPath(fieldPath)
+    let node = schema
+    for (let i = 0; i < segments.length; i++) {
+        const segment = segments[i]
+        if (IGNORED_KEYS.has(segment)) {
+            return null
+        }
+        const child = getSchemaChild(schema, node, segment)
+        if (child !== undefined) {
+            node = child
+            continue
+        }
+
+        const prefix = segments.slice(0, i)
+        const unknownPath = joinFieldPath([...prefix, segment])
+        const declaredKeys = getSchemaChildKeys(schema, node)
+
+        const caseMatch = declaredKeys.find(key => key.toLowerCase() === segment.toLowerCase())
+        if (caseMatch) {
+            return { fieldPath: unknownPath, kind: 'case-mismatch', suggestion: joinFieldPath([...prefix, caseMatch]), distance: 0 }
+        }
+
+        const closest = findClosestKey(segment, declaredKeys)
+        return {
+            fieldPath: unknownPath,
+            kind: 'unknown',
+            suggestion: closest ? joinFieldPath([...prefix, closest.key]) : null,
+            distance: closest?.distance ?? null,
+        }
+    }
+    return null
+}
+
+/**
+ * Find the declared key with the smallest edit distance, if it is close enough to plausibly be a typo
+ */
+export function findClosestKey(key: string, candidates: string[]): { key: string, distance: number } | null {
+    let best: { key: string, distance: number } | null = null
+    for (const candidate of candidates) {
+        const distance = getEditDistance(key.toLowerCase(), candidate.toLowerCase())
+        if (!best || distance < best.distance) {
+            best = { key: candidate, distance }
+        }
+    }
+    const maxDistance = Math.max(2, Math.floor(key.length / 3))
+    return best && best.distance <= maxDistance ? best : null
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function getEditDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i]
+        for (let j = 1; j <= b.length; j++) {
+            const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution))
+        }
+        previous = current
+    }
+    return previous[b.length]
+}
+
+/**
+ * Render the undeclared fields as a collapsible section of the HTML report
+ */
+export function getFieldHygieneHtml(report: Record<string, UnknownField[]>): string {
+    const total = Object.values(report).reduce((sum, fields) => sum + fields.length, 0)
+    const typesHtml = Object.entries(report)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([configTypeName, fields]) => `
+            <h3 class="section-subheader">${escapeHtml(configTypeName)}</h3>
+            ${fields.length === 0 ? '<p class="section-note">All fields are declared in the schema.</p>' : ''}
+            ${fields.map(field => `
+                <div class="issue-item">
+                    <span class="field-name">${escapeHtml(field.fieldPath)}</span>
+                    ${field.suggestion ? `<span class="issue-message">${field.kind === 'case-mismatch' ? 'wrong case, should be' : 'did you mean'} <b>${escapeHtml(field.suggestion)}</b>?</span>` : ''}
+                    <div class="mod-list">
+                        ${field.mods.map(mod => getModBadgeHtml(mod.modName, mod.url)).join('')}
+                    </div>
+                </div>
+            `).join('')}
+        `)
+        .join('')
+
+    return `
+        <div class="config-type">
+            <div class="config-type-header collapsed">
+                <span class="toggle-icon">▼</span>
+                <span>Unknown Fields</span>
+                <span style="margin-left: auto; font-size: 0.85em; font-weight: normal; color: #999;">${total} fields not declared in the schemas</span>
+            </div>
+            <div class="config-type-content collapsed">
+                ${typesHtml || '<p class="section-note">No vendored schemas to check against.</p>'}
+            </div>
+        </div>
+    `
+}
@@ -1,17 +1,40 @@
 import { analyzeModConfigs } from "./analysis.ts"
 import { createAnalysisContext } from "./context.ts"
-import { loadModsFromCache } from "./cache.ts"
+import { loadModsFromCache, loadModVersionHistoryFromCache } from "./cache.ts"
 import { fetchAndLoadModsFromGitHub } from "./github.ts"
+import { createFixtureModSource, createGitHubModSource, createLocalModSource, createRecordingModSource, type ModSource } from "./mod-source.ts"
+import { fetchAndLoadModsFromReleases } from "./release.ts"
 
 const SKIP_LOCAL_CACHE = process.env.SKIP_LOCAL_CACHE === 'true' // Set to true to always fetch from GitHub and skip local cache
 const LOCAL_CACHE_ONLY = process.env.LOCAL_CACHE_ONLY === 'true' // Set to true to skip GitHub fetching and only load from local cache
+const LOAD_ALL_VERSIONS = process.env.LOAD_ALL_VERSIONS === 'true' // Set to true to also load every cached version of each mod for version history analysis
+const USE_RELEASES = process.env.MOD_SOURCE === 'release' // Set MOD_SOURCE=release to read the released zips listed in the mod database instead of each repo's default branch
+const LOCAL_SOURCE_DIR = process.env.LOCAL_SOURCE_DIR // Set to a directory mirroring the mod database and repos to crawl it instead of GitHub
+const FIXTURE_DIR = process.env.FIXTURE_DIR // Set to a directory of recorded responses to replay them instead of calling GitHub or LOCAL_SOURCE_DIR
+const RECORD_FIXTURES = process.env.RECORD_FIXTURES === 'true' // Set to true with FIXTURE_DIR to record responses into it instead of replaying them
+
+// Releases are cached separately, since a released version and the repo at the same version number can differ
+const modCacheRootDir = `${process.cwd()}/${USE_RELEASES ? 'release-cache' : 'mod-cache'}`
+
+let source: ModSource = LOCAL_SOURCE_DIR ? createLocalModSource(LOCAL_SOURCE_DIR) : createGitHubModSource(process.env.GITHUB_TOKEN)
+if (FIXTURE_DIR) {
+    source = RECORD_FIXTURES ? createRecordingModSource(source, FIXTURE_DIR) : await createFixtureModSource(FIXTURE_DIR)
+}
 
 const ctx = createAnalysisContext()
 
 if (!SKIP_LOCAL_CACHE) {
-    await loadModsFromCache(ctx)
+    await loadModsFromCache(ctx, modCacheRootDir)
 }
 if (!LOCAL_CACHE_ONLY) {
-    await fetchAndLoadModsFromGitHub(ctx)
+    if (USE_RELEASES) {
+        await fetchAndLoadModsFromReleases(ctx, source, modCacheRootDir)
+    } else {
+        await fetchAndLoadModsFromGitHub(ctx, source, modCacheRootDir)
+    }
+}
+if (LOAD_ALL_VERSIONS) {
+    // Loaded after fetching so versions cached by this run are included
+    await loadModVersionHistoryFromCache(ctx, modCacheRootDir)
 }
 await analyzeModConfigs(ctx)
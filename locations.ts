@@ -0,0 +1,191 @@
+import type { ModSourceInfo } from "./context.ts"
+import type { ConfigFormat } from "./discovery.ts"
+import { getXmlPointerLines } from "./xml.ts"
+
+/**
+ * Map every JSON pointer in a config to the 1-based line it starts on, for either format
+ */
+export function getConfigPointerLines(text: string, format: ConfigFormat): Record<string, number> {
+    return format === 'xml' ? getXmlPointerLines(text) : getJsonPointerLines(text)
+}
+
+/**
+ * Build a GitHub permalink to a file (and optionally a line) at the commit a mod's configs were fetched from
+ */
+export function getGitHubPermalink(source: ModSourceInfo, filePath: string, line?: number): string | null {
+    const repoPath = source.files[filePath]
+    if (!repoPath || !source.commitSha) {
+        return null
+    }
+    const encodedPath = repoPath.split('/').map(encodeURIComponent).join('/')
+    return `https://github.com/${source.owner}/${source.repo}/blob/${source.commitSha}/${encodedPath}${line ? `#L${line}` : ''}`
+}
+
+/**
+ * Escape a single JSON pointer reference token (RFC 6901)
+ */
+export function escapeJsonPointerToken(token: string): string {
+    return token.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+/**
+ * List the offset each line of a text starts at, for looking up lines with lineAt
+ */
+export function getLineStarts(text: string): number[] {
+    const lineStarts = [0]
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') {
+            lineStarts.push(i + 1)
+        }
+    }
+    return lineStarts
+}
+
+/**
+ * Find the 1-based line an offset falls on, given the offsets the lines start at
+ */
+export function lineAt(lineStarts: number[], offset: number): number {
+    let low = 0
+    let high = lineStarts.length - 1
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2)
+        if (lineStarts[mid] <= offset) {
+            low = mid
+        } else {
+            high = mid - 1
+        }
+    }
+    return low + 1
+}
+
+/**
+ * Map every JSON pointer in a JSON5 document to the 1-based line it starts on.
+ * Object members are attributed to the line of their key, array items to the line the item starts on.
+ * Malformed input is scanned as far as possible; pointers after the first syntax error are omitted.
+ */
+export function getJsonPointerLines(text: string): Record<string, number> {
+    const lines: Record<string, number> = {}
+    const lineStarts = getLineStarts(text)
+    let pos = 0
+
+    const skipTrivia = () => {
+        while (pos < text.length) {
+            if (/\s/.test(text[pos])) {
+                pos++
+            } else if (text.startsWith('//', pos)) {
+                const end = text.indexOf('\n', pos)
+                pos = end === -1 ? text.length : end + 1
+            } else if (text.startsWith('/*', pos)) {
+                const end = text.indexOf('*/', pos + 2)
+                pos = end === -1 ? text.length : end + 2
+            } else {
+                break
+            }
+        }
+    }
+
+    const readString = (): string => {
+        const quote = text[pos++]
+        let result = ''
+        while (pos < text.length && text[pos] !== quote) {
+            if (text[pos] === '\\') {
+                pos++
+                const escaped = text[pos++]
+                switch (escaped) {
+                    case 'n': result += '\n'; break
+                    case 't': result += '\t'; break
+                    case 'r': result += '\r'; break
+                    case 'b': result += '\b'; break
+                    case 'f': result += '\f'; break
+                    case 'v': result += '\v'; break
+                    case '0': result += '\0'; break
+                    case 'u': result += String.fromCharCode(parseInt(text.substring(pos, pos + 4), 16)); pos += 4; break
+                    case 'x': result += String.fromCharCode(parseInt(text.substring(pos, pos + 2), 16)); pos += 2; break
+                    case '\r': if (text[pos] === '\n') pos++; break
+                    case '\n': break
+                    default: result += escaped
+                }
+            } else {
+                result += text[pos++]
+            }
+        }
+        if (pos >= text.length) {
+            throw new Error('Unterminated string')
+        }
+        pos++
+        return result
+    }
+
+    const readBareToken = (): string => {
+        const match = /^[^\s,:\[\]{}\/"']+/.exec(text.substring(pos, pos + 256))
+        if (!match) {
+            throw new Error(`Unexpected character '${text[pos]}' at line ${lineAt(lineStarts, pos)}`)
+        }
+        pos += match[0].length
+        return match[0]
+    }
+
+    const expect = (char: string) => {
+        skipTrivia()
+        if (text[pos] !== char) {
+            throw new Error(`Expected '${char}' at line ${lineAt(lineStarts, pos)}`)
+        }
+        pos++
+    }
+
+    const parseValue = (pointer: string) => {
+        skipTrivia()
+        if (!(pointer in lines)) {
+            lines[pointer] = lineAt(lineStarts, pos)
+        }
+        const char = text[pos]
+        if (char === '{') {
+            pos++
+            while (true) {
+                skipTrivia()
+                if (text[pos] === '}') {
+                    pos++
+                    return
+                }
+                const keyLine = lineAt(lineStarts, pos)
+                const key = text[pos] === '"' || text[pos] === "'" ? readString() : readBareToken()
+                expect(':')
+                const childPointer = `${pointer}/${escapeJsonPointerToken(key)}`
+                lines[childPointer] = keyLine
+                parseValue(childPointer)
+                skipTrivia()
+                if (text[pos] === ',') {
+                    pos++
+                } else if (text[pos] !== '}') {
+                    throw new Error(`Expected ',' or '}' at line ${lineAt(lineStarts, pos)}`)
+                }
+            }
+        } else if (char === '[') {
+            pos++
+            for (let index = 0; ; index++) {
+                skipTrivia()
+                if (text[pos] === ']') {
+                    pos++
+                    return
+                }
+                parseValue(`${pointer}/${index}`)
+                skipTrivia()
+                if (text[pos] === ',') {
+                    pos++
+                } else if (text[pos] !== ']') {
+                    throw new Error(`Expected ',' or ']' at line ${lineAt(lineStarts, pos)}`)
+                }
+            }
+        } else if (char === '"' || char === "'") {
+            readString()
+        } else {
+            readBareToken()
+        }
+    }
+
+    try {
+        parseValue('')
+    } catch {}
+
+    return lines
+}
@@ -0,0 +1,374 @@
+import { createHash } from "node:crypto"
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises"
+import JSON5 from "json5"
+import { Octokit } from "octokit"
+
+export interface RepoTreeEntry {
+    type: string // 'blob' for files, 'tree' for directories
+    path: string
+    sha?: string // git blob SHA, for backends that have one
+}
+
+export interface RepoTag {
+    name: string
+    commitSha: string
+}
+
+export interface RateLimit {
+    remaining: number // requests left in the current window
+    resetAt: number // when the window resets, in milliseconds since the epoch
+}
+
+/**
+ * Everything the crawlers read from the outside world. Backends are interchangeable, so a full crawl and analysis
+ * can run against a local mirror or recorded responses instead of the network.
+ */
+export interface ModSource {
+    hasPermalinks: boolean // whether commit SHAs from this source exist on GitHub, so permalinks can be built from them
+    getModDatabase(): Promise<any> // contents of ow-mod-db's mods.json
+    getDefaultBranch(owner: string, repo: string): Promise<string>
+    getBranchHeadSha(owner: string, repo: string, branch: string): Promise<string>
+    getTags(owner: string, repo: string): Promise<RepoTag[]>
+    getFileTree(owner: string, repo: string, ref: string): Promise<RepoTreeEntry[]> // flat, recursive listing
+    getTextContent(owner: string, repo: string, path: string, ref: string): Promise<string>
+    getBlobText(owner: string, repo: string, sha: string): Promise<string> // file contents by the SHA from a tree entry
+    download(url: string): Promise<Uint8Array> // arbitrary URLs, e.g. the built mod database and release zips
+    getRateLimit(): RateLimit | null // quota reported by the most recent response, for backends that have one
+}
+
+/** What a failed request throws, both Octokit's errors and those of download below; dropped connections have no status */
+interface RequestError {
+    status?: number
+    message?: string
+    response?: { headers?: Record<string, string | undefined> }
+}
+
+/** Attempts made for a request that keeps hitting rate limits or transient server errors */
+const MAX_REQUEST_ATTEMPTS = 6
+
+/** First delay of the exponential backoff for server errors, doubled on each retry */
+const RETRY_BASE_DELAY_MS = 1000
+
+/** Wait after a secondary rate limit that does not say how long to wait, as recommended by GitHub */
+const SECONDARY_RATE_LIMIT_DELAY_MS = 60_000
+
+/**
+ * Read mods and repos from the GitHub API
+ */
+export function createGitHubModSource(token: string | undefined): ModSource {
+    const octokit = new Octokit({
+        auth: token,
+        // The bundled plugins only retry once; rate limits and retries are handled by the request hook below instead
+        throttle: { enabled: false },
+        retry: { enabled: false },
+    })
+
+    let rateLimit: RateLimit | null = null
+    octokit.hook.wrap('request', (request, options) => retryRequest(`${options.method} ${options.url}`, async () => {
+        // Once the quota is used up every request would fail, so wait for the reset instead of spending retries
+        if (rateLimit && rateLimit.remaining === 0 && rateLimit.resetAt > Date.now()) {
+            console.log(`GitHub rate limit exhausted, waiting until ${new Date(rateLimit.resetAt).toLocaleTimeString()}`)
+            await sleep(rateLimit.resetAt - Date.now() + 1000)
+        }
+        try {
+            const res = await request(options)
+            rateLimit = parseRateLimit(res.headers) ?? rateLimit
+            return res
+        } catch (e) {
+            if (isRequestError(e)) {
+                rateLimit = parseRateLimit(e.response?.headers) ?? rateLimit
+            }
+            throw e
+        }
+    }))
+
+    const getTextContent = async (owner: string, repo: string, path: string, ref?: string) => {
+        const res = await octokit.rest.repos.getContent({ owner, repo, path, ...(ref ? { ref } : {}) })
+        if (res.status !== 200) {
+            throw new Error(`Failed to get content for ${owner}/${repo}/${path}: ${res.status}`)
+        }
+        if (!('content' in res.data)) {
+            throw new Error(`Content for ${owner}/${repo}/${path} is not a file`)
+        }
+        return Buffer.from(res.data.content, 'base64').toString('utf-8')
+    }
+
+    return {
+        hasPermalinks: true,
+        async getModDatabase() {
+            return JSON5.parse(await getTextContent('ow-mods', 'ow-mod-db', 'mods.json'))
+        },
+        async getDefaultBranch(owner, repo) {
+            const res = await octokit.rest.repos.get({
+                owner,
+                repo,
+            })
+            if (res.status !== 200) {
+                throw new Error(`Failed to get repo info for ${owner}/${repo}: ${res.status}`)
+            }
+            return res.data.default_branch
+        },
+        async getBranchHeadSha(owner, repo, branch) {
+            const res = await octokit.rest.repos.getBranch({
+                owner,
+                repo,
+                branch,
+            })
+            if (res.status !== 200) {
+                throw new Error(`Failed to get branch ${branch} for ${owner}/${repo}: ${res.status}`)
+            }
+            return res.data.commit.sha
+        },
+        async getTags(owner, repo) {
+            // Releases are always tagged, so this covers them too
+            const tags = await octokit.paginate(octokit.rest.repos.listTags, {
+                owner,
+                repo,
+                per_page: 100,
+            })
+            return tags.map(tag => ({ name: tag.name, commitSha: tag.commit.sha }))
+        },
+        async getFileTree(owner, repo, ref) {
+            const res = await octokit.rest.git.getTree({
+                owner,
+                repo,
+                tree_sha: ref,
+                recursive: 'true',
+            })
+            if (res.status !== 200) {
+                throw new Error(`Failed to get file tree for ${owner}/${repo}@${ref}: ${res.status}`)
+            }
+            return res.data.tree.map(entry => ({ type: entry.type || '', path: entry.path || '', ...(entry.sha ? { sha: entry.sha } : {}) }))
+        },
+        getTextContent,
+        async getBlobText(owner, repo, sha) {
+            const res = await octokit.rest.git.getBlob({
+                owner,
+                repo,
+                file_sha: sha,
+            })
+            if (res.status !== 200) {
+                throw new Error(`Failed to get blob ${sha} for ${owner}/${repo}: ${res.status}`)
+            }
+            return Buffer.from(res.data.content, res.data.encoding === 'base64' ? 'base64' : 'utf-8').toString('utf-8')
+        },
+        download(url) {
+            return retryRequest(`GET ${url}`, async () => {
+                const res = await fetch(url)
+                if (!res.ok) {
+                    throw Object.assign(new Error(`Failed to download ${url}: ${res.status}`), {
+                        status: res.status,
+                        response: { headers: Object.fromEntries(res.headers) },
+                    })
+                }
+                return new Uint8Array(await res.arrayBuffer())
+            })
+        },
+        getRateLimit: () => rateLimit,
+    }
+}
+
+/**
+ * Run a request, waiting out rate limits and retrying transient failures with jittered exponential backoff
+ */
+async function retryRequest<T>(description: string, request: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await request()
+        } catch (e) {
+            const delay = getRetryDelay(e, attempt)
+            if (delay === null || attempt >= MAX_REQUEST_ATTEMPTS) {
+                throw e
+            }
+            console.log(`${description} failed (${(isRequestError(e) ? e.status : undefined) ?? e}), retrying in ${Math.ceil(delay / 1000)}s`)
+            await sleep(delay)
+        }
+    }
+}
+
+/**
+ * Decide how long to wait before retrying a failed request, or null if retrying would not help
+ */
+export function getRetryDelay(error: unknown, attempt: number): number | null {
+    const requestError: RequestError = isRequestError(error) ? error : {}
+    const status = requestError.status
+    const headers = requestError.response?.headers ?? {}
+    const backoff = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)
+    // Full jitter keeps concurrent workers that failed together from retrying together
+    const jitter = Math.random() * backoff
+
+    if (status === 403 || status === 429) {
+        // Primary rate limit: nothing succeeds until the window resets
+        if (headers['x-ratelimit-remaining'] === '0' && headers['x-ratelimit-reset']) {
+            return Math.max(0, Number(headers['x-ratelimit-reset']) * 1000 - Date.now()) + 1000
+        }
+        // Secondary rate limit: GitHub says how long to back off, or else asks for at least a minute
+        if (headers['retry-after']) {
+            return Number(headers['retry-after']) * 1000 + jitter
+        }
+        if (/secondary rate limit/i.test(requestError.message ?? '')) {
+            return SECONDARY_RATE_LIMIT_DELAY_MS * attempt + jitter
+        }
+        return null
+    }
+    // Server errors and dropped connections (no status at all) are usually transient
+    if (status === undefined || status >= 500) {
+        return backoff + jitter
+    }
+    return null
+}
+
+/**
+ * Whether an error came from a request that got a response, as Octokit's errors do, rather than from anywhere else
+ */
+function isRequestError(error: unknown): error is RequestError {
+    if (typeof error !== 'object' || error === null) {
+        return false
+    }
+    const { status, response } = error as Record<string, unknown>
+    return typeof status === 'number' || (typeof response === 'object' && response !== null)
+}
+
+function parseRateLimit(headers: Record<string, string | number | undefined> | undefined): RateLimit | null {
+    const remaining = headers?.['x-ratelimit-remaining']
+    const reset = headers?.['x-ratelimit-reset']
+    if (remaining === undefined || reset === undefined) {
+        return null
+    }
+    return { remaining: Number(remaining), resetAt: Number(reset) * 1000 }
+}
+
+function sleep(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/** Branch name and commit reported for every repo in a local mirror, which only holds a single working copy */
+const LOCAL_REF = 'local'
+
+/**
+ * Read mods and repos from a directory mirroring them on disk:
+ *   {rootDir}/mods.json                  the mod database
+ *   {rootDir}/repos/{owner}/{repo}/...   one working copy per repo
+ *   {rootDir}/downloads/{host}/{path}    files served in place of downloaded URLs
+ */
+export function createLocalModSource(rootDir: string): ModSource {
+    const getRepoDir = (owner: string, repo: string) => `${rootDir}/repos/${owner}/${repo}`
+
+    const listFiles = async (dir: string, prefix: string): Promise<RepoTreeEntry[]> => {
+        const entries: RepoTreeEntry[] = []
+        for (const entry of await readdir(dir, { withFileTypes: true })) {
+            if (entry.name === '.git') continue
+            const path = `${prefix}${entry.name}`
+            if (entry.isDirectory()) {
+                entries.push({ type: 'tree', path })
+                entries.push(...await listFiles(`${dir}/${entry.name}`, `${path}/`))
+            } else if (entry.isFile()) {
+                entries.push({ type: 'blob', path })
+            }
+        }
+        return entries
+    }
+
+    return {
+        hasPermalinks: false,
+        async getModDatabase() {
+            return JSON5.parse(await readFile(`${rootDir}/mods.json`, 'utf-8'))
+        },
+        async getDefaultBranch() {
+            return LOCAL_REF
+        },
+        async getBranchHeadSha() {
+            return LOCAL_REF
+        },
+        async getTags() {
+            return []
+        },
+        async getFileTree(owner, repo) {
+            return listFiles(getRepoDir(owner, repo), '')
+        },
+        async getTextContent(owner, repo, path) {
+            return readFile(`${getRepoDir(owner, repo)}/${path}`, 'utf-8')
+        },
+        async getBlobText() {
+            // Tree entries from a local mirror carry no SHAs, so callers always read by path instead
+            throw new Error('Local mirrors do not support reading files by blob SHA')
+        },
+        async download(url) {
+            return new Uint8Array(await readFile(`${rootDir}/downloads/${url.replace(/^[a-z]+:\/\//i, '')}`))
+        },
+        getRateLimit: () => null,
+    }
+}
+
+/** File in a fixture directory describing the recorded source itself, as opposed to one of its responses */
+const FIXTURE_INFO_FILE = 'fixture-info.json'
+
+/**
+ * Replay responses saved by a recording source, failing on any request that was not recorded
+ */
+export async function createFixtureModSource(fixtureDir: string): Promise<ModSource> {
+    const info = JSON.parse(await readFile(`${fixtureDir}/${FIXTURE_INFO_FILE}`, 'utf-8'))
+    const replay = async (...request: string[]) => {
+        try {
+            const fixture = JSON.parse(await readFile(getFixturePath(fixtureDir, request), 'utf-8'))
+            return fixture.response
+        } catch {
+            throw new Error(`No recorded response for ${request.join(' ')} in ${fixtureDir}`)
+        }
+    }
+
+    return {
+        hasPermalinks: info.hasPermalinks,
+        getModDatabase: () => replay('getModDatabase'),
+        getDefaultBranch: (owner, repo) => replay('getDefaultBranch', owner, repo),
+        getBranchHeadSha: (owner, repo, branch) => replay('getBranchHeadSha', owner, repo, branch),
+        getTags: (owner, repo) => replay('getTags', owner, repo),
+        getFileTree: (owner, repo, ref) => replay('getFileTree', owner, repo, ref),
+        getTextContent: (owner, repo, path, ref) => replay('getTextContent', owner, repo, path, ref),
+        getBlobText: (owner, repo, sha) => replay('getBlobText', owner, repo, sha),
+        download: async url => new Uint8Array(Buffer.from(await replay('download', url), 'base64')),
+        getRateLimit: () => null,
+    }
+}
+
+/**
+ * Wrap a source so every successful response is saved to a fixture directory for createFixtureModSource to replay
+ */
+export function createRecordingModSource(inner: ModSource, fixtureDir: string): ModSource {
+    let wroteInfo = false
+    const record = async <T>(request: string[], response: T, saved: unknown = response): Promise<T> => {
+        if (!wroteInfo) {
+            await mkdir(fixtureDir, { recursive: true })
+            await writeFile(`${fixtureDir}/${FIXTURE_INFO_FILE}`, JSON.stringify({ hasPermalinks: inner.hasPermalinks }, null, 2))
+            wroteInfo = true
+        }
+        await writeFile(getFixturePath(fixtureDir, request), JSON.stringify({ request: request.join(' '), response: saved }, null, 2))
+        return response
+    }
+
+    return {
+        hasPermalinks: inner.hasPermalinks,
+        getModDatabase: async () => record(['getModDatabase'], await inner.getModDatabase()),
+        getDefaultBranch: async (owner, repo) => record(['getDefaultBranch', owner, repo], await inner.getDefaultBranch(owner, repo)),
+        getBranchHeadSha: async (owner, repo, branch) => record(['getBranchHeadSha', owner, repo, branch], await inner.getBranchHeadSha(owner, repo, branch)),
+        getTags: async (owner, repo) => record(['getTags', owner, repo], await inner.getTags(owner, repo)),
+        getFileTree: async (owner, repo, ref) => record(['getFileTree', owner, repo, ref], await inner.getFileTree(owner, repo, ref)),
+        getTextContent: async (owner, repo, path, ref) => record(['getTextContent', owner, repo, path, ref], await inner.getTextContent(owner, repo, path, ref)),
+        getBlobText: async (owner, repo, sha) => record(['getBlobText', owner, repo, sha], await inner.getBlobText(owner, repo, sha)),
+        download: async url => {
+            const data = await inner.download(url)
+            return record(['download', url], data, Buffer.from(data).toString('base64'))
+        },
+        getRateLimit: () => inner.getRateLimit(),
+    }
+}
+
+/**
+ * Name a fixture file after its request, with a hash so requests that only differ in stripped characters stay distinct
+ */
+function getFixturePath(fixtureDir: string, request: string[]): string {
+    const key = request.join(' ')
+    const readableKey = key.replace(/[^a-zA-Z0-9._-]+/g, '_').substring(0, 100)
+    const hash = createHash('sha1').update(key).digest('hex').substring(0, 8)
+    return `${fixtureDir}/${readableKey}-${hash}.json`
+}
@@ -0,0 +1,190 @@
+import { strFromU8, unzipSync } from "fflate"
+import { exists } from "./cache.ts"
+import { parseConfigText } from "./config-parser.ts"
+import { createCrawlProgress, forEachConcurrently } from "./concurrency.ts"
+import type { AnalysisContext, ModSourceInfo } from "./context.ts"
+import { recordCrawlError, withCrawlStage } from "./crawl-errors.ts"
+import {
+    findConfigFiles,
+    getConfigFormat,
+    getManifestType,
+    getModConfigTypes,
+    loadDiscoveryRules,
+    selectConfigType,
+    setConfig,
+    type ConfigFormat,
+} from "./discovery.ts"
+import { MOD_ALLOW_LIST, MOD_CONCURRENCY, writeCacheFile } from "./github.ts"
+import { getConfigPointerLines } from "./locations.ts"
+import type { ModSource } from "./mod-source.ts"
+
+/** Built mod database published by ow-mod-db, listing the latest release of every mod */
+const MOD_DATABASE_URL = 'https://ow-mods.github.io/ow-mod-db/database.json'
+
+/**
+ * Download the latest released zip of every mod in the mod database and load the configs that actually ship to players.
+ * Unlike the GitHub source, this never sees unreleased or sample configs that only live in the repo.
+ */
+export async function fetchAndLoadModsFromReleases(ctx: AnalysisContext, source: ModSource, modCacheRootDir: string) {
+    console.log('Fetching mod releases from the mod database...')
+
+    /*
+    Example data from database.json:
+    {
+        "releases": [
+            {
+                "name": "OWML",
+                "uniqueName": "Alek.OWML",
+                "repo": "https://github.com/amazingalek/owml",
+                "version": "2.14.0",
+                "downloadUrl": "https://github.com/amazingalek/owml/releases/download/v2.14.0/OWML.zip",
+                "downloadCount": 123456,
+                // ...
+            },
+            // ...
+        ],
+        // ...
+    }
+    */
+    const modDB = JSON.parse(strFromU8(await source.download(MOD_DATABASE_URL)))
+
+    const releases = modDB.releases.filter((release: any) => {
+        if (MOD_ALLOW_LIST && !MOD_ALLOW_LIST.includes(release.uniqueName)) {
+            return false
+        }
+        if (!release.downloadUrl) {
+            console.log(`Skipping mod ${release.uniqueName} with no download URL`)
+            return false
+        }
+        return true
+    })
+    const progress = createCrawlProgress(releases.length, () => source.getRateLimit())
+
+    await forEachConcurrently(releases, MOD_CONCURRENCY, async (release: any) => {
+        try {
+            // The database already tells us the released version, so we can skip cached versions without downloading anything
+            const version = release.version || '0.0.0'
+            const modCacheDir = `${modCacheRootDir}/${release.uniqueName}/${version}`
+            if (await exists(modCacheDir)) {
+                console.log(`Mod ${release.uniqueName} version ${version} is already cached, skipping`)
+            } else {
+                console.log(`Downloading mod ${release.uniqueName} ${version} from ${release.downloadUrl}`)
+                const zip = await withCrawlStage('content', release.downloadUrl, source.download(release.downloadUrl))
+                const { files, allPaths } = getReleaseConfigFiles(zip)
+                await cacheReleaseFiles(ctx, release, files, allPaths, modCacheRootDir, modCacheDir)
+            }
+        } catch (e) {
+            recordCrawlError(ctx, release.uniqueName, e, 'content', { ...(release.repo ? { repo: getRepoName(release.repo) } : {}) })
+        }
+        progress.complete()
+    })
+}
+
+/**
+ * Extract the JSON and XML files of a release zip in memory, keyed by their normalized path in the zip,
+ * and list the normalized paths of every file in it
+ */
+function getReleaseConfigFiles(zip: Uint8Array): { files: Record<string, string>, allPaths: string[] } {
+    const allPaths: string[] = []
+    const entries = unzipSync(zip, {
+        filter: file => {
+            if (!file.name.endsWith('/')) {
+                allPaths.push(file.name.replace(/\\/g, '/'))
+            }
+            return /\.(json|xml)$/i.test(file.name)
+        },
+    })
+    const files: Record<string, string> = {}
+    for (const [path, data] of Object.entries(entries)) {
+        files[path.replace(/\\/g, '/')] = strFromU8(data)
+    }
+    return { files, allPaths }
+}
+
+/**
+ * Cache and load the manifest and other config files of an extracted release
+ */
+async function cacheReleaseFiles(
+    ctx: AnalysisContext,
+    release: any,
+    files: Record<string, string>,
+    allPaths: string[],
+    modCacheRootDir: string,
+    modCacheDir: string
+) {
+    const modUniqueName: string = release.uniqueName
+    const configTypes = getModConfigTypes(await loadDiscoveryRules(), modUniqueName)
+
+    // Zips either hold the mod files directly or wrap them in a single folder, so the mod root is wherever the
+    // shallowest manifest.json is.
+    const manifestType = getManifestType(configTypes)
+    const paths = Object.keys(files).sort((a, b) => a.split('/').length - b.split('/').length)
+    const manifestPath = paths.find(path => manifestType.matches(path))
+    if (!manifestPath) {
+        console.log(`No manifest.json file found in the release of mod ${modUniqueName}`)
+        return
+    }
+    const modRoot = manifestPath.substring(0, manifestPath.lastIndexOf('/') + 1)
+    const [owner, repo] = getRepoName(release.repo || '').split('/')
+
+    const sourceInfo: ModSourceInfo = {
+        owner: owner || '',
+        repo: repo || '',
+        downloadUrl: release.downloadUrl,
+        fetchedAt: new Date().toISOString(),
+        files: {},
+    }
+    ctx.modSources[modUniqueName] = sourceInfo
+    ctx.configLines[modUniqueName] = {}
+    const recordFile = (filePath: string, zipPath: string, text: string, format: ConfigFormat) => {
+        sourceInfo.files[filePath] = zipPath
+        ctx.configLines[modUniqueName][filePath] = getConfigPointerLines(text, format)
+    }
+
+    const manifestText = files[manifestPath]
+    await writeCacheFile(`${modCacheDir}/manifest.json`, manifestText)
+    ctx.manifestConfigs[modUniqueName] = parseReleaseConfigContent(ctx, manifestText, modUniqueName, manifestPath, 'json').data
+    recordFile('manifest.json', manifestPath, manifestText, 'json')
+    // Also store latest manifest for the mod in the root so we can grab the latest version easily later
+    await writeCacheFile(`${modCacheRootDir}/${modUniqueName}/manifest.json`, manifestText)
+
+    // The rest of the config types declared in discovery.json, only looking inside the mod root, shallowest files first
+    const modPaths = paths.filter(path => path.startsWith(modRoot))
+    for (const { path: configPath, filePath, configTypes: fileConfigTypes } of findConfigFiles(configTypes, modPaths, modRoot, modUniqueName)) {
+        const configText = files[configPath]
+        const format = getConfigFormat(fileConfigTypes[0])
+        await writeCacheFile(`${modCacheDir}/${filePath}`, configText)
+        recordFile(filePath, configPath, configText, format)
+        try {
+            const { data, rootElement } = parseReleaseConfigContent(ctx, configText, modUniqueName, configPath, format)
+            const configType = selectConfigType(fileConfigTypes, rootElement)
+            if (configType) {
+                setConfig(ctx, configType, modUniqueName, filePath, data)
+            }
+        } catch (e) {
+            recordCrawlError(ctx, modUniqueName, e, 'parse')
+        }
+    }
+
+    // List every file below the mod root, so asset references in the configs can be resolved
+    const modFileTree = allPaths.filter(path => path.startsWith(modRoot)).map(path => path.substring(modRoot.length))
+    ctx.modFileTrees[modUniqueName] = modFileTree
+    await writeCacheFile(`${modCacheDir}/tree.json`, JSON.stringify(modFileTree, null, 2))
+
+    await writeCacheFile(`${modCacheDir}/source.json`, JSON.stringify(sourceInfo, null, 2))
+}
+
+function parseReleaseConfigContent(ctx: AnalysisContext, content: string, modUniqueName: string, path: string, format: ConfigFormat) {
+    const parsed = parseConfigText(content, path, format)
+    if (parsed.recoveredError) {
+        recordCrawlError(ctx, modUniqueName, parsed.recoveredError, 'parse')
+    }
+    return parsed
+}
+
+/**
+ * Get owner/repo from a GitHub repo URL as listed in the built mod database
+ */
+function getRepoName(repoUrl: string): string {
+    return repoUrl.replace(/^https:\/\/github\.com\//, '')
+}
@@ -0,0 +1,258 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises"
+import { ARRAY_ITEMS_SEGMENT, joinFieldPath, splitFieldPath } from "./field-paths.ts"
+
+/** Directory holding vendored copies of the upstream schemas, so analysis runs offline */
+const SCHEMA_DIR = process.env.SCHEMA_DIR || `${process.cwd()}/schemas`
+
+const NEW_HORIZONS_SCHEMA_BASE_URL = 'https://raw.githubusercontent.com/Outer-Wilds-New-Horizons/new-horizons/main/NewHorizons/Schemas'
+
+export interface SchemaSource {
+    configType: string // Config type name used throughout the analysis, e.g. 'planets'
+    fileName: string // File name of the vendored schema, matching the upstream file name
+    url: string // Upstream location the vendored copy is refreshed from
+}
+
+export const SCHEMA_SOURCES: SchemaSource[] = [
+    { configType: 'manifest', fileName: 'manifest_schema.json', url: 'https://raw.githubusercontent.com/ow-mods/owml/master/schemas/manifest_schema.json' },
+    { configType: 'title-screen', fileName: 'title_screen_schema.json', url: `${NEW_HORIZONS_SCHEMA_BASE_URL}/title_screen_schema.json` },
+    { configType: 'addon-manifest', fileName: 'addon_manifest_schema.json', url: `${NEW_HORIZONS_SCHEMA_BASE_URL}/addon_manifest_schema.json` },
+    { configType: 'planets', fileName: 'body_schema.json', url: `${NEW_HORIZONS_SCHEMA_BASE_URL}/body_schema.json` },
+    { configType: 'systems', fileName: 'star_system_schema.json', url: `${NEW_HORIZONS_SCHEMA_BASE_URL}/star_system_schema.json` },
+]
+
+/**
+ * Load the vendored schema for a config type, or null if there is no schema for it or it has not been vendored yet
+ */
+export async function loadSchema(configType: string): Promise<any | null> {
+    const source = SCHEMA_SOURCES.find(s => s.configType === configType)
+    if (!source) {
+        return null
+    }
+    try {
+        const data = await readFile(`${SCHEMA_DIR}/${source.fileName}`, 'utf-8')
+        return JSON.parse(data)
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Find the known schema a `$schema` reference points at, matching on the schema file name
+ */
+export function findSchemaSourceByReference(reference: string): SchemaSource | null {
+    const fileName = reference.substring(reference.replace(/\\/g, '/').lastIndexOf('/') + 1).toLowerCase()
+    return SCHEMA_SOURCES.find(s => s.fileName.toLowerCase() === fileName) ?? null
+}
+
+/**
+ * Refresh the vendored schemas from their upstream locations
+ */
+export async function downloadSchemas() {
+    await mkdir(SCHEMA_DIR, { recursive: true })
+    for (const source of SCHEMA_SOURCES) {
+        console.log(`Downloading ${source.fileName} from ${source.url}`)
+        const res = await fetch(source.url)
+        if (!res.ok) {
+            throw new Error(`Failed to download schema ${source.url}: ${res.status}`)
+        }
+        const schema = await res.json()
+        await writeFile(`${SCHEMA_DIR}/${source.fileName}`, JSON.stringify(schema, null, 2) + '\n')
+    }
+}
+
+/** The object properties and array items a schema node allows once $ref and combinators are resolved */
+interface ResolvedSchemaNode {
+    properties: Record<string, any>
+    additionalProperties: any | null // schema for arbitrary keys, or null when only declared properties are expected
+    items: any[]
+    isOpen: boolean // an object schema that declares no properties accepts any key
+}
+
+/**
+ * Resolve a local JSON pointer $ref (e.g. #/definitions/BaseModule) against the root schema
+ */
+function resolveSchemaRef(root: any, ref: string): any {
+    if (!ref.startsWith('#')) {
+        return {}
+    }
+    let node = root
+    for (const token of ref.substring(1).split('/').filter(Boolean)) {
+        node = node?.[decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~')]
+    }
+    return node ?? {}
+}
+
+/**
+ * Resolve a schema node, following $ref and merging allOf/anyOf/oneOf branches
+ */
+function resolveSchemaNode(root: any, node: any, seenRefs: Set<string> = new Set()): ResolvedSchemaNode {
+    const resolved: ResolvedSchemaNode = { properties: {}, additionalProperties: null, items: [], isOpen: false }
+    if (node === true || node === undefined || node === null) {
+        resolved.isOpen = true
+        return resolved
+    }
+    if (typeof node !== 'object') {
+        return resolved
+    }
+    if (typeof node.$ref === 'string') {
+        if (seenRefs.has(node.$ref)) {
+            return resolved
+        }
+        return resolveSchemaNode(root, resolveSchemaRef(root, node.$ref), new Set([...seenRefs, node.$ref]))
+    }
+
+    let hasBranches = false
+    for (const combinator of ['allOf', 'anyOf', 'oneOf']) {
+        for (const branch of node[combinator] ?? []) {
+            hasBranches = true
+            const resolvedBranch = resolveSchemaNode(root, branch, seenRefs)
+            Object.assign(resolved.properties, resolvedBranch.properties)
+            resolved.additionalProperties ??= resolvedBranch.additionalProperties
+            resolved.items.push(...resolvedBranch.items)
+            resolved.isOpen ||= resolvedBranch.isOpen
+        }
+    }
+
+    Object.assign(resolved.properties, node.properties ?? {})
+    if (node.additionalProperties && typeof node.additionalProperties === 'object') {
+        resolved.additionalProperties = node.additionalProperties
+    }
+    if (node.items) {
+        resolved.items.push(...(Array.isArray(node.items) ? node.items : [node.items]))
+    }
+
+    const types: string[] = Array.isArray(node.type) ? node.type : node.type ? [node.type] : []
+    const allowsObject = types.length === 0 || types.includes('object')
+    if (allowsObject && !hasBranches && !node.properties && !node.items && node.additionalProperties !== false && !resolved.additionalProperties) {
+        resolved.isOpen = types.includes('object') || Object.keys(node).every(key => key === 'description' || key === 'title')
+    }
+    return resolved
+}
+
+/** Fields nested deeper than this are not enumerated, as a backstop against pathological schemas */
+const MAX_SCHEMA_DEPTH = 16
+
+/** Segment used in schema field paths for keys that are not declared individually, e.g. dictionary entries */
+export const DYNAMIC_KEY_SEGMENT = '*'
+
+export interface SchemaFieldPath {
+    path: string // dotted field path in the same notation as the per-field summaries, e.g. Props.details[].path
+    description?: string
+}
+
+/**
+ * Collect the declared child fields of a schema node, and the schema of its items if it is an array
+ */
+function getSchemaChildren(root: any, node: any): { properties: Record<string, any>, dynamic: any | null, items: any | null, isOpen: boolean } {
+    const resolved = resolveSchemaNode(root, node)
+    const items = resolved.items.length > 1 ? { anyOf: resolved.items } : resolved.items[0] ?? null
+    return { properties: resolved.properties, dynamic: resolved.additionalProperties, items, isOpen: resolved.isOpen }
+}
+
+/**
+ * Look up the subschema for a child key of a field, or for its items with the '[]' segment.
+ * Returns undefined when the key is not declared. Items are always accepted, since whether a field may be an array
+ * at all is up to schema validation.
+ */
+export function getSchemaChild(root: any, node: any, key: string): any | undefined {
+    const children = getSchemaChildren(root, node)
+    if (key === ARRAY_ITEMS_SEGMENT) {
+        return children.items ?? true
+    }
+    if (key in children.properties) {
+        return children.properties[key]
+    }
+    if (children.dynamic) {
+        return children.dynamic
+    }
+    if (children.isOpen) {
+        return true
+    }
+    return undefined
+}
+
+/**
+ * List the property names a field declares, including those of its array items
+ */
+export function getSchemaChildKeys(root: any, node: any): string[] {
+    return Object.keys(getSchemaChildren(root, node).properties)
+}
+
+/**
+ * Whether the schema declares properties for the object at a field path, so its keys are field names rather than data.
+ * Placeholder segments such as {key} match the schema's dictionary entries.
+ */
+export function hasSchemaProperties(root: any, fieldPath: string): boolean {
+    let node = root
+    for (const segment of splitFieldPath(fieldPath)) {
+        node = getSchemaChild(root, node, segment)
+        // Undeclared, or below a node that accepts anything
+        if (node === undefined || node === true) {
+            return false
+        }
+    }
+    return getSchemaChildKeys(root, node).length > 0
+}
+
+/**
+ * Enumerate every declared field path in a schema. Dictionary-style objects contribute a '*' segment, array items
+ * a '[]' segment, and recursive definitions are expanded only once along each path.
+ */
+export function listSchemaFieldPaths(root: any): SchemaFieldPath[] {
+    const paths: SchemaFieldPath[] = []
+    const walk = (node: any, prefix: string[], ancestors: Set<any>) => {
+        if (prefix.length >= MAX_SCHEMA_DEPTH) {
+            return
+        }
+        const children = getSchemaChildren(root, node)
+        const entries = Object.entries(children.properties)
+        if (children.dynamic) {
+            entries.push([DYNAMIC_KEY_SEGMENT, children.dynamic])
+        }
+        if (children.items) {
+            entries.push([ARRAY_ITEMS_SEGMENT, children.items])
+        }
+        for (const [key, child] of entries) {
+            const path = [...prefix, key]
+            const description = typeof child?.description === 'string' ? child.description : undefined
+            paths.push({ path: joinFieldPath(path), ...(description ? { description } : {}) })
+            if (!ancestors.has(child)) {
+                walk(child, path, new Set([...ancestors, child]))
+            }
+        }
+    }
+    walk(root, [], new Set())
+    return paths
+}
+
+/**
+ * Map a field path from the per-field summaries onto the schema's declared field paths, replacing dictionary keys
+ * with '*'. Paths below a schema node that accepts any content are truncated to that node.
+ * Returns null when the field path is not declared.
+ */
+export function resolveSchemaFieldPath(root: any, fieldPath: string): string | null {
+    const resolved: string[] = []
+    let node = root
+    for (const segment of splitFieldPath(fieldPath)) {
+        const children = getSchemaChildren(root, node)
+        if (segment === ARRAY_ITEMS_SEGMENT) {
+            // An array without declared items accepts anything
+            if (!children.items) {
+                break
+            }
+            resolved.push(segment)
+            node = children.items
+        } else if (segment in children.properties) {
+            resolved.push(segment)
+            node = children.properties[segment]
+        } else if (children.dynamic) {
+            resolved.push(DYNAMIC_KEY_SEGMENT)
+            node = children.dynamic
+        } else if (children.isOpen) {
+            break
+        } else {
+            return null
+        }
+    }
+    return joinFieldPath(resolved)
+}
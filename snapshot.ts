@@ -0,0 +1,298 @@
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises"
+import type { JsonPrimitive, PerFieldSummary } from "./analysis.ts"
+import { escapeHtml, getModBadgeHtml } from "./html.ts"
+
+const SNAPSHOT_ROOT_DIR = `${process.cwd()}/snapshots`
+
+/** File holding a snapshot in its directory under snapshots/ */
+const SNAPSHOT_FILE = 'snapshot.json'
+
+/**
+ * Version of the snapshot format, raised whenever snapshots or the field paths in them change meaning, since fields
+ * would otherwise show up as abandoned and adopted again. Version 1 snapshots were copies of the full summaries.
+ */
+const SNAPSHOT_FORMAT_VERSION = 2
+
+/** The parts of a run's analysis that snapshots are compared on */
+interface Snapshot {
+    name: string
+    formatVersion: number
+    configTypes: Record<string, {
+        mods: string[] // mods with configs of the type
+        fields: Record<string, {
+            mods: string[] // mods using the field
+            values: JsonPrimitive[] // distinct values of the field
+        }>
+    }>
+}
+
+export interface FieldAdoptionChange {
+    fieldPath: string
+    modsAdded: string[]
+    modsRemoved: string[]
+}
+
+export interface NewFieldValues {
+    fieldPath: string
+    values: JsonPrimitive[]
+}
+
+export interface ConfigTypeDiff {
+    newFields: { fieldPath: string, mods: string[] }[] // fields no mod used in the older snapshot
+    abandonedFields: { fieldPath: string, mods: string[] }[] // fields no mod uses anymore, with the mods that used to
+    adoptionChanges: FieldAdoptionChange[] // fields used in both snapshots whose set of mods changed
+    newValues: NewFieldValues[] // distinct values that first appear in the newer snapshot
+}
+
+export interface SnapshotDiff {
+    from: string
+    to: string
+    modsAdded: string[]
+    modsRemoved: string[]
+    configTypes: Record<string, ConfigTypeDiff>
+}
+
+/**
+ * Save the field paths of the current run, with the mods using them and their distinct values, into a timestamped
+ * snapshot under snapshots/
+ */
+export async function writeAnalysisSnapshot(perFieldSummaries: Record<string, Record<string, PerFieldSummary>>): Promise<string> {
+    // Milliseconds are kept so runs in the same second do not overwrite each other's snapshot
+    const name = new Date().toISOString().replace(/:/g, '-')
+    const snapshot: Snapshot = { name, formatVersion: SNAPSHOT_FORMAT_VERSION, configTypes: {} }
+    for (const [configType, fields] of Object.entries(perFieldSummaries)) {
+        const typeMods = new Set<string>()
+        const typeFields: Snapshot['configTypes'][string]['fields'] = {}
+        for (const [fieldPath, summary] of Object.entries(fields)) {
+            const fieldMods = summary.mods.map(mod => mod.modName)
+            fieldMods.forEach(mod => typeMods.add(mod))
+            typeFields[fieldPath] = { mods: fieldMods, values: summary.distinctValues.map(value => value.value) }
+        }
+        snapshot.configTypes[configType] = { mods: Array.from(typeMods).sort(), fields: typeFields }
+    }
+    await mkdir(`${SNAPSHOT_ROOT_DIR}/${name}`, { recursive: true })
+    await writeFile(`${SNAPSHOT_ROOT_DIR}/${name}/${SNAPSHOT_FILE}`, JSON.stringify(snapshot, null, 2))
+    console.log(`Wrote analysis snapshot: snapshots/${name}`)
+    return name
+}
+
+/**
+ * List snapshot names, oldest first. Names are ISO timestamps so they sort chronologically.
+ */
+export async function listSnapshots(): Promise<string[]> {
+    try {
+        const entries = await readdir(SNAPSHOT_ROOT_DIR, { withFileTypes: true })
+        return entries.filter(e => e.isDirectory()).map(e => e.name).sort()
+    } catch {
+        return []
+    }
+}
+
+/**
+ * Load a snapshot, refusing those of another format version, whose field paths cannot be compared with the current ones
+ */
+async function loadSnapshot(name: string): Promise<Snapshot> {
+    let snapshot: Snapshot
+    try {
+        snapshot = JSON.parse(await readFile(`${SNAPSHOT_ROOT_DIR}/${name}/${SNAPSHOT_FILE}`, 'utf-8'))
+    } catch (e) {
+        // Version 1 snapshots are directories of copied summaries without a snapshot file
+        if ((e as NodeJS.ErrnoException)?.code === 'ENOENT') {
+            throw new Error(`Snapshot ${name} has format version 1, which cannot be compared with version ${SNAPSHOT_FORMAT_VERSION}; run the crawler again to take a new snapshot`)
+        }
+        throw e
+    }
+    if (snapshot.formatVersion !== SNAPSHOT_FORMAT_VERSION) {
+        throw new Error(`Snapshot ${name} has format version ${snapshot.formatVersion}, which cannot be compared with version ${SNAPSHOT_FORMAT_VERSION}; run the crawler again to take a new snapshot`)
+    }
+    return { ...snapshot, name }
+}
+
+/**
+ * Compare two snapshots, writing analysis/diff.json and analysis/diff.html.
+ * Defaults to the two most recent snapshots.
+ */
+export async function diffAnalysisSnapshots(analysisOutputDir: string, fromName?: string, toName?: string): Promise<SnapshotDiff> {
+    const snapshots = await listSnapshots()
+    const to = toName ?? snapshots[snapshots.length - 1]
+    const from = fromName ?? snapshots[snapshots.indexOf(to) - 1]
+    if (!from || !to) {
+        throw new Error(`Need two snapshots to compare, found ${snapshots.length} in snapshots/`)
+    }
+    console.log(`Comparing snapshot ${from} to ${to}...`)
+
+    const diff = buildSnapshotDiff(await loadSnapshot(from), await loadSnapshot(to))
+
+    await mkdir(analysisOutputDir, { recursive: true })
+    await writeFile(`${analysisOutputDir}/diff.json`, JSON.stringify(diff, null, 2))
+    await writeFile(`${analysisOutputDir}/diff.html`, buildDiffHtmlDocument(diff))
+    console.log('Generated diff report: analysis/diff.html')
+    return diff
+}
+
+function buildSnapshotDiff(from: Snapshot, to: Snapshot): SnapshotDiff {
+    const collectMods = (snapshot: Snapshot) => new Set(Object.values(snapshot.configTypes).flatMap(t => t.mods))
+    const fromMods = collectMods(from)
+    const toMods = collectMods(to)
+
+    const diff: SnapshotDiff = {
+        from: from.name,
+        to: to.name,
+        modsAdded: Array.from(toMods).filter(m => !fromMods.has(m)).sort(),
+        modsRemoved: Array.from(fromMods).filter(m => !toMods.has(m)).sort(),
+        configTypes: {},
+    }
+
+    const configTypes = new Set([...Object.keys(from.configTypes), ...Object.keys(to.configTypes)])
+    for (const configType of Array.from(configTypes).sort()) {
+        const fromFields = from.configTypes[configType]?.fields ?? {}
+        const toFields = to.configTypes[configType]?.fields ?? {}
+        const typeDiff: ConfigTypeDiff = { newFields: [], abandonedFields: [], adoptionChanges: [], newValues: [] }
+
+        for (const [fieldPath, toField] of Object.entries(toFields)) {
+            const fromField = fromFields[fieldPath]
+            if (!fromField) {
+                typeDiff.newFields.push({ fieldPath, mods: toField.mods })
+                continue
+            }
+
+            const fromFieldMods = new Set(fromField.mods)
+            const toFieldMods = new Set(toField.mods)
+            const modsAdded = Array.from(toFieldMods).filter(m => !fromFieldMods.has(m))
+            const modsRemoved = Array.from(fromFieldMods).filter(m => !toFieldMods.has(m))
+            if (modsAdded.length > 0 || modsRemoved.length > 0) {
+                typeDiff.adoptionChanges.push({ fieldPath, modsAdded, modsRemoved })
+            }
+
+            const fromValueKeys = new Set(fromField.values.map(value => JSON.stringify(value)))
+            const values = toField.values.filter(value => !fromValueKeys.has(JSON.stringify(value)))
+            if (values.length > 0) {
+                typeDiff.newValues.push({ fieldPath, values })
+            }
+        }
+        for (const [fieldPath, fromField] of Object.entries(fromFields)) {
+            if (!toFields[fieldPath]) {
+                typeDiff.abandonedFields.push({ fieldPath, mods: fromField.mods })
+            }
+        }
+
+        typeDiff.newFields.sort((a, b) => a.fieldPath.localeCompare(b.fieldPath))
+        typeDiff.abandonedFields.sort((a, b) => a.fieldPath.localeCompare(b.fieldPath))
+        typeDiff.adoptionChanges.sort((a, b) => a.fieldPath.localeCompare(b.fieldPath))
+        typeDiff.newValues.sort((a, b) => a.fieldPath.localeCompare(b.fieldPath))
+        diff.configTypes[configType] = typeDiff
+    }
+
+    return diff
+}
+
+/**
+ * Build the standalone diff page that sits next to index.html
+ */
+function buildDiffHtmlDocument(diff: SnapshotDiff): string {
+    const modListHtml = (mods: string[]) => `<div class="mod-list">${mods.map(mod => getModBadgeHtml(mod, undefined)).join('')}</div>`
+
+    const typesHtml = Object.entries(diff.configTypes).map(([configType, typeDiff]) => `
+        <h2>${escapeHtml(configType)}</h2>
+        <h3>Newly adopted fields (${typeDiff.newFields.length})</h3>
+        ${typeDiff.newFields.map(f => `<div class="row added"><code>${escapeHtml(f.fieldPath)}</code>${modListHtml(f.mods)}</div>`).join('')}
+        <h3>Abandoned fields (${typeDiff.abandonedFields.length})</h3>
+        ${typeDiff.abandonedFields.map(f => `<div class="row removed"><code>${escapeHtml(f.fieldPath)}</code>${modListHtml(f.mods)}</div>`).join('')}
+        <h3>Adoption changes (${typeDiff.adoptionChanges.length})</h3>
+        ${typeDiff.adoptionChanges.map(c => `
+            <div class="row">
+                <code>${escapeHtml(c.fieldPath)}</code>
+                ${c.modsAdded.length > 0 ? `<div class="added">+ ${modListHtml(c.modsAdded)}</div>` : ''}
+                ${c.modsRemoved.length > 0 ? `<div class="removed">− ${modListHtml(c.modsRemoved)}</div>` : ''}
+            </div>
+        `).join('')}
+        <h3>New distinct values (${typeDiff.newValues.reduce((sum, v) => sum + v.values.length, 0)})</h3>
+        ${typeDiff.newValues.map(v => `<div class="row"><code>${escapeHtml(v.fieldPath)}</code> ${v.values.map(value => `<span class="value">${escapeHtml(JSON.stringify(value))}</span>`).join(' ')}</div>`).join('')}
+    `).join('')
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Config Analysis Diff</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+            background-color: #0b1220;
+            color: #e5e7eb;
+            line-height: 1.6;
+            padding: 20px;
+            max-width: 1200px;
+            margin: 0 auto;
+        }
+
+        a {
+            color: #c4b5fd;
+        }
+
+        h2 {
+            margin-top: 30px;
+            color: #c4b5fd;
+        }
+
+        h3 {
+            margin-top: 15px;
+            font-size: 1em;
+            color: #cbd5e1;
+        }
+
+        .row {
+            margin: 6px 0;
+            padding: 8px 12px;
+            background-color: #0f172a;
+            border-left: 3px solid #1f2937;
+            border-radius: 4px;
+        }
+
+        .row.added,
+        .added {
+            border-left-color: #86efac;
+            color: #86efac;
+        }
+
+        .row.removed,
+        .removed {
+            border-left-color: #fca5a5;
+            color: #fca5a5;
+        }
+
+        .mod-list {
+            display: inline-flex;
+            flex-wrap: wrap;
+            gap: 6px;
+            margin-left: 10px;
+        }
+
+        .mod-badge {
+            background-color: #1f2937;
+            color: #c4b5fd;
+            padding: 2px 8px;
+            border-radius: 4px;
+            font-size: 0.85em;
+        }
+
+        .value {
+            font-family: 'Courier New', monospace;
+            background-color: #1f2937;
+            padding: 1px 6px;
+            border-radius: 4px;
+        }
+    </style>
+</head>
+<body>
+    <p><a href="index.html">← Back to the analysis report</a></p>
+    <h1>Changes from ${escapeHtml(diff.from)} to ${escapeHtml(diff.to)}</h1>
+    <h3>Mods added (${diff.modsAdded.length})</h3>
+    ${modListHtml(diff.modsAdded)}
+    <h3>Mods removed (${diff.modsRemoved.length})</h3>
+    ${modListHtml(diff.modsRemoved)}
+    ${typesHtml}
+</body>
+</html>`
+}
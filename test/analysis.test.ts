@@ -0,0 +1,34 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { computeNumericStats } from "../analysis.ts"
+
+describe('computeNumericStats', () => {
+    it('has no statistics without values', () => {
+        assert.equal(computeNumericStats([]), null)
+    })
+
+    it('computes the range, mean and median', () => {
+        const stats = computeNumericStats([800, 5000, 1200, 9000])!
+        assert.equal(stats.count, 4)
+        assert.equal(stats.min, 800)
+        assert.equal(stats.max, 9000)
+        assert.equal(stats.mean, 4000)
+        assert.equal(stats.median, 3100)
+        assert.equal(computeNumericStats([3, 1, 2])!.median, 2)
+    })
+
+    it('buckets values into equal-width ranges, no more than there are distinct values', () => {
+        const stats = computeNumericStats([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 10])!
+        assert.equal(stats.histogram.length, 10)
+        assert.deepEqual(stats.histogram[0], { start: 0, end: 1, count: 1 })
+        // The maximum falls into the last bucket rather than one past it
+        assert.deepEqual(stats.histogram[9], { start: 9, end: 10, count: 3 })
+        assert.equal(stats.histogram.reduce((sum, bucket) => sum + bucket.count, 0), 12)
+
+        assert.equal(computeNumericStats([1, 1, 5])!.histogram.length, 2)
+    })
+
+    it('collapses a constant field into a single bucket', () => {
+        assert.deepEqual(computeNumericStats([4, 4, 4])!.histogram, [{ start: 4, end: 4, count: 3 }])
+    })
+})
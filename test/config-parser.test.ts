@@ -0,0 +1,45 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { CrawlStageError } from "../crawl-errors.ts"
+import { parseConfigText, recoverConfigText } from "../config-parser.ts"
+
+describe('parseConfigText', () => {
+    it('accepts JSON5', () => {
+        assert.deepEqual(parseConfigText('{ // comment\n    name: "Pebble",\n}', 'planets/Pebble.json').data, { name: 'Pebble' })
+    })
+
+    it('reports where a config is broken', () => {
+        const text = '{\n    "name": "Pebble"\n    "Base": {}\n}'
+        assert.throws(() => parseConfigText(text, 'planets/Pebble.json'), (error: unknown) => {
+            assert.ok(error instanceof CrawlStageError)
+            assert.equal(error.stage, 'parse')
+            assert.equal(error.path, 'planets/Pebble.json')
+            assert.equal(error.syntax?.line, 3)
+            assert.equal(error.syntax?.column, 5)
+            assert.equal(error.syntax?.snippet.split('\n').at(-1), '  |     ^')
+            return true
+        })
+    })
+})
+
+describe('recoverConfigText', () => {
+    it('inserts a missing comma', () => {
+        assert.deepEqual(recoverConfigText('{\n    "name": "Pebble"\n    "isMoon": true\n}'), { name: 'Pebble', isMoon: true })
+    })
+
+    it('quotes keys JSON5 does not accept unquoted', () => {
+        assert.deepEqual(recoverConfigText('{ semi-major axis: 5 }'), { 'semi-major axis': 5 })
+    })
+
+    it('drops a stray character', () => {
+        assert.deepEqual(recoverConfigText('{ "details": [ { "path": "Rock" } ]] }'), { details: [{ path: 'Rock' }] })
+    })
+
+    it('closes a truncated file', () => {
+        assert.deepEqual(recoverConfigText('{ "Base": { "surfaceSize": 20 }'), { Base: { surfaceSize: 20 } })
+    })
+
+    it('gives up on text that is not mostly valid', () => {
+        assert.equal(recoverConfigText('this is not a config at all'), undefined)
+    })
+})
@@ -0,0 +1,181 @@
+import { execFile } from "node:child_process"
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { promisify } from "node:util"
+import assert from "node:assert/strict"
+import { after, before, describe, it } from "node:test"
+
+const REPO_DIR = new URL('..', import.meta.url).pathname
+const FIXTURE_DIR = `${REPO_DIR}test/fixtures`
+const SCHEMA_DIR = `${FIXTURE_DIR}/schemas`
+const BOB_MOONS_COMMIT = '957fde5ca78e830f8996afc5c4d87bd791bf5356'
+
+/**
+ * Crawl and analyze the recorded fixtures once, in a scratch directory so no cache or report of a real run is touched,
+ * and check the key outputs. The fixtures hold two small mods, with commit and blob SHAs like a recording of GitHub,
+ * one of them with a broken planet config and a misspelled field, and a mod with no repo. The repo's discovery rules are used with map detection turned on for planets,
+ * whose Props hold enough different kinds of props to be mistaken for a map. Only the body and manifest schemas are
+ * provided, as hand-written subsets of the official ones.
+ */
+describe('crawl of the recorded fixtures', () => {
+    let workDir = ''
+    const runScript = (script: string, ...args: string[]) => promisify(execFile)(process.execPath, ['--no-warnings', `${REPO_DIR}${script}`, ...args], {
+        cwd: workDir,
+        // Only what the run needs, so settings of the developer's shell cannot leak into it
+        env: {
+            PATH: process.env.PATH,
+            FIXTURE_DIR,
+            SCHEMA_DIR,
+        },
+        timeout: 120_000,
+    })
+    const readOutput = async (path: string) => JSON.parse(await readFile(`${workDir}/analysis/${path}`, 'utf-8'))
+
+    before(async () => {
+        workDir = await mkdtemp(`${tmpdir()}/config-crawler-test-`)
+        const discovery = JSON.parse(await readFile(`${REPO_DIR}discovery.json`, 'utf-8'))
+        discovery.configTypes.find((type: any) => type.name === 'planets').detectDynamicKeys = true
+        await writeFile(`${workDir}/discovery.json`, JSON.stringify(discovery, null, 2))
+        // An older version of a mod cached by an earlier run, with configs the current version no longer has
+        const oldVersionDir = `${workDir}/mod-cache/Alice.NewPlanets/0.0.1`
+        await mkdir(`${oldVersionDir}/planets`, { recursive: true })
+        const oldManifest = JSON.stringify({ uniqueName: 'Alice.NewPlanets', version: '0.0.1' })
+        await writeFile(`${oldVersionDir}/manifest.json`, oldManifest)
+        await writeFile(`${workDir}/mod-cache/Alice.NewPlanets/manifest.json`, oldManifest)
+        await writeFile(`${oldVersionDir}/planets/Removed.json`, '{ "name": "Removed", "isRemoved": true }')
+        await writeFile(`${oldVersionDir}/planets/RemovedBroken.json`, '{ "name": "RemovedBroken" "isRemoved": true }')
+        await runScript('index.ts')
+    })
+
+    after(async () => {
+        await rm(workDir, { recursive: true, force: true })
+    })
+
+    it('analyzes the configs of every mod with a repo', async () => {
+        assert.deepEqual(Object.keys(await readOutput('manifest/per-mod-summary.json')).sort(), ['Alice.NewPlanets', 'Bob.Moons'])
+        assert.deepEqual(Object.keys(await readOutput('planets/per-mod-summary.json')).sort(), ['Alice.NewPlanets', 'Bob.Moons'])
+    })
+
+    it('caches every fetched file by its blob SHA', async () => {
+        const blobs = (await readdir(`${workDir}/blob-cache`, { recursive: true })).filter(path => path.includes('/'))
+        // Nine files of Alice.NewPlanets and three of Bob.Moons
+        assert.equal(blobs.length, 12)
+        assert.ok(blobs.includes('40/404a8c9fe8202dab3c5a98d2df3482374d1c39a8'))
+        const source = JSON.parse(await readFile(`${workDir}/mod-cache/Bob.Moons/0.3.1/source.json`, 'utf-8'))
+        assert.equal(source.commitSha, BOB_MOONS_COMMIT)
+        assert.equal(source.blobs['planets/Broken.json'], '404a8c9fe8202dab3c5a98d2df3482374d1c39a8')
+    })
+
+    it('counts every use of a field across mods', async () => {
+        const fields = await readOutput('planets/per-field-summary.json')
+        assert.equal(fields['Orbit.semiMajorAxis'].occurrenceCount, 4)
+        assert.equal(fields['Orbit.semiMajorAxis'].mods.length, 2)
+    })
+
+    it('does not mistake objects declaring different arrays for maps', async () => {
+        assert.deepEqual(await readOutput('planets/dynamic-keys.json'), [])
+        const fields = await readOutput('planets/per-field-summary.json')
+        assert.ok('Props.details[].path' in fields)
+        assert.ok('Props.scatter[].count' in fields)
+        assert.ok(!Object.keys(fields).some(fieldPath => fieldPath.startsWith('Props.{')))
+    })
+
+    it('compares features and keeps only the pairs that say something', async () => {
+        const cooccurrence = await readOutput('planets/co-occurrence.json')
+        assert.equal(cooccurrence.features['Props.details'], 3)
+        for (const pair of cooccurrence.pairs) {
+            const expectedFiles = cooccurrence.features[pair.fields[0]] * cooccurrence.features[pair.fields[1]] / cooccurrence.fileCount
+            assert.ok(pair.files > 0 || expectedFiles >= 2, pair.fields.join(' + '))
+        }
+    })
+
+    it('collapses the keys of declared dynamic-key maps', async () => {
+        const fields = await readOutput('default-config/per-field-summary.json')
+        assert.ok('settings.{settingName}' in fields)
+        assert.ok('settings.{settingName}.value' in fields)
+        assert.ok(!('settings.Show Moons' in fields))
+    })
+
+    it('analyzes XML configs with every child element as an array', async () => {
+        const dialogueFields = await readOutput('dialogue/per-field-summary.json')
+        assert.ok('NameField[]' in dialogueFields)
+        // The fixture has a single <DialogueNode>, which still gives the same paths as several would
+        assert.ok('DialogueNode[].Name[]' in dialogueFields)
+        assert.ok(!('DialogueNode.Name' in dialogueFields))
+        assert.equal(dialogueFields['DialogueNode[].Name[]'].mods[0].occurrences[0].line, 4)
+        assert.ok('Entry[].ExploreFact[].ID[]' in await readOutput('ship-logs/per-field-summary.json'))
+    })
+
+    it('records the broken config as a crawl error with its location', async () => {
+        const errors = (await readOutput('crawl-errors.json')).filter((error: any) => error.modName)
+        assert.equal(errors.length, 1)
+        assert.equal(errors[0].modName, 'Bob.Moons')
+        assert.equal(errors[0].path, 'planets/Broken.json')
+        assert.equal(errors[0].stage, 'parse')
+        assert.equal(errors[0].line, 4)
+    })
+
+    it('drops the configs and errors of the previously cached version when a mod is updated', async () => {
+        assert.ok(!('isRemoved' in await readOutput('planets/per-field-summary.json')))
+        const errors = await readOutput('crawl-errors.json')
+        assert.ok(!errors.some((error: any) => error.path === 'planets/RemovedBroken.json'))
+    })
+
+    it('validates the configs of every type with a schema', async () => {
+        // Both manifests and every planet config but the broken one
+        assert.deepEqual(await readOutput('validation/summary.json'), { checkedFiles: 6, invalidFiles: 1 })
+        const [issue] = (await readOutput('validation/per-mod-errors.json'))['Bob.Moons']
+        assert.equal(issue.pointer, '/Base/hasMapMarkr')
+        assert.equal(issue.line, 4)
+        assert.equal(issue.url, `https://github.com/bob/moons/blob/${BOB_MOONS_COMMIT}/planets/Pebble.json#L4`)
+        const errors = (await readOutput('crawl-errors.json')).filter((error: any) => error.stage === 'schema')
+        assert.deepEqual(errors.map((error: any) => error.path).sort(), [
+            'schemas/addon_manifest_schema.json',
+            'schemas/star_system_schema.json',
+            'schemas/title_screen_schema.json',
+        ])
+        assert.ok(errors.every((error: any) => !error.modName))
+    })
+
+    it('suggests the declared field a misspelled one was meant to be', async () => {
+        assert.deepEqual(await readOutput('planets/unknown-fields.json'), [{
+            fieldPath: 'Base.hasMapMarkr',
+            kind: 'unknown',
+            suggestion: 'Base.hasMapMarker',
+            distance: 1,
+            mods: [{
+                modName: 'Bob.Moons',
+                files: ['planets/Pebble.json'],
+                url: `https://github.com/bob/moons/blob/${BOB_MOONS_COMMIT}/planets/Pebble.json#L4`,
+            }],
+        }])
+    })
+
+    it('lists the declared fields no mod uses', async () => {
+        const coverage = await readOutput('planets/schema-coverage.json')
+        const modCounts = Object.fromEntries(coverage.fields.map((field: any) => [field.path, field.modCount]))
+        assert.equal(modCounts['Water'], 0)
+        assert.equal(modCounts['Water.tint.r'], 0)
+        assert.equal(modCounts['Orbit.semiMajorAxis'], 2)
+        // Used through a field nested below it
+        assert.equal(modCounts['Props'], 2)
+        assert.ok(coverage.usedFields < coverage.declaredFields)
+    })
+
+    it('refuses to compare snapshots of different formats', async () => {
+        const [snapshotName] = await readdir(`${workDir}/snapshots`)
+        const snapshot = JSON.parse(await readFile(`${workDir}/snapshots/${snapshotName}/snapshot.json`, 'utf-8'))
+        assert.ok(snapshot.configTypes.planets.fields['Orbit.semiMajorAxis'].values.includes(5000))
+
+        // Snapshots from before format versions were copies of the summaries
+        const oldSnapshotDir = `${workDir}/snapshots/2000-01-01T00-00-00Z/planets`
+        await mkdir(oldSnapshotDir, { recursive: true })
+        await writeFile(`${oldSnapshotDir}/per-field-summary.json`, '{}')
+        await assert.rejects(runScript('diff.ts'), /format version 1/)
+    })
+
+    it('writes the HTML report', async () => {
+        const html = await readFile(`${workDir}/analysis/index.html`, 'utf-8')
+        assert.match(html, /Alice\.NewPlanets/)
+    })
+})
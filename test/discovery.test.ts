@@ -0,0 +1,31 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { globToRegExp } from "../discovery.ts"
+
+describe('globToRegExp', () => {
+    it('matches any number of directories with **, including none', () => {
+        const glob = globToRegExp('**/planets/**/*.json')
+        assert.ok(glob.test('planets/Ember.json'))
+        assert.ok(glob.test('NewHorizons/planets/Ember.json'))
+        assert.ok(glob.test('NewHorizons/planets/moons/Pebble.json'))
+        assert.ok(!glob.test('NewHorizons/systems/Alice.Ember.json'))
+    })
+
+    it('matches within a single path segment with * and ?', () => {
+        assert.ok(globToRegExp('systems/*.json').test('systems/Alice.Ember.json'))
+        assert.ok(!globToRegExp('systems/*.json').test('systems/old/Alice.Ember.json'))
+        assert.ok(globToRegExp('planets/Moon?.json').test('planets/Moon1.json'))
+        assert.ok(!globToRegExp('planets/Moon?.json').test('planets/Moon/.json'))
+    })
+
+    it('matches the whole path, ignoring case', () => {
+        assert.ok(globToRegExp('manifest.json').test('Manifest.JSON'))
+        assert.ok(!globToRegExp('manifest.json').test('old/manifest.json'))
+        assert.ok(!globToRegExp('manifest.json').test('manifest.json.bak'))
+    })
+
+    it('escapes characters that are special in regular expressions', () => {
+        assert.ok(globToRegExp('translations/(old)+new.json').test('translations/(old)+new.json'))
+        assert.ok(!globToRegExp('a.json').test('abjson'))
+    })
+})
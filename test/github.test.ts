@@ -0,0 +1,45 @@
+import assert from "node:assert/strict"
+import { mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { after, before, describe, it } from "node:test"
+import { hasSameBlobs } from "../github.ts"
+
+describe('hasSameBlobs', () => {
+    const blobs = {
+        'manifest.json': 'f371608b9c6e90d7ada4b69534679a235abdc432',
+        'planets/Pebble.json': 'd85572d2a8f3033d66c6a6c9a408e5b3e4d1e636',
+    }
+    let modCacheDir = ''
+    const writeSource = (source: object) => writeFile(`${modCacheDir}/source.json`, JSON.stringify(source))
+
+    before(async () => {
+        modCacheDir = await mkdtemp(`${tmpdir()}/config-crawler-blobs-`)
+    })
+
+    after(async () => {
+        await rm(modCacheDir, { recursive: true, force: true })
+    })
+
+    it('matches a version cached from exactly the same blobs', async () => {
+        await writeSource({ owner: 'bob', repo: 'moons', fetchedAt: '', files: {}, blobs: { ...blobs } })
+        assert.equal(await hasSameBlobs(modCacheDir, blobs, 2), true)
+    })
+
+    it('notices a file that changed, appeared or disappeared', async () => {
+        await writeSource({ owner: 'bob', repo: 'moons', fetchedAt: '', files: {}, blobs: { ...blobs } })
+        assert.equal(await hasSameBlobs(modCacheDir, { ...blobs, 'planets/Pebble.json': '404a8c9fe8202dab3c5a98d2df3482374d1c39a8' }, 2), false)
+        assert.equal(await hasSameBlobs(modCacheDir, { ...blobs, 'planets/Dust.json': '404a8c9fe8202dab3c5a98d2df3482374d1c39a8' }, 3), false)
+        assert.equal(await hasSameBlobs(modCacheDir, { 'manifest.json': blobs['manifest.json'] }, 1), false)
+    })
+
+    it('never matches without SHAs for every file', async () => {
+        // A source without SHAs for some of its files
+        await writeSource({ owner: 'bob', repo: 'moons', fetchedAt: '', files: {}, blobs: { ...blobs } })
+        assert.equal(await hasSameBlobs(modCacheDir, blobs, 3), false)
+        // A version cached before blob SHAs were recorded
+        await writeSource({ owner: 'bob', repo: 'moons', fetchedAt: '', files: {} })
+        assert.equal(await hasSameBlobs(modCacheDir, blobs, 2), false)
+        await rm(`${modCacheDir}/source.json`)
+        assert.equal(await hasSameBlobs(modCacheDir, blobs, 2), false)
+    })
+})
@@ -0,0 +1,29 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { findClosestKey } from "../hygiene.ts"
+
+describe('findClosestKey', () => {
+    const keys = ['surfaceSize', 'surfaceGravity', 'hasMapMarker', 'gravityFallOff']
+
+    it('suggests the key with the smallest edit distance', () => {
+        assert.deepEqual(findClosestKey('surfaceGravty', keys), { key: 'surfaceGravity', distance: 1 })
+        assert.deepEqual(findClosestKey('surfcaeSize', keys), { key: 'surfaceSize', distance: 2 })
+        assert.deepEqual(findClosestKey('hasMapMarkr', keys), { key: 'hasMapMarker', distance: 1 })
+    })
+
+    it('ignores case when measuring the distance', () => {
+        assert.deepEqual(findClosestKey('SurfaceGravty', keys), { key: 'surfaceGravity', distance: 1 })
+    })
+
+    it('does not suggest keys too different to be a typo', () => {
+        assert.equal(findClosestKey('orbitSpeed', keys), null)
+        assert.equal(findClosestKey('size', []), null)
+    })
+
+    it('allows more edits in longer keys', () => {
+        // A third of the length: 4 edits in a 14 character key, but never fewer than 2
+        assert.deepEqual(findClosestKey('gravityFalOfff', keys)?.key, 'gravityFallOff')
+        assert.equal(findClosestKey('xyz', ['abc']), null)
+        assert.deepEqual(findClosestKey('ab', ['cd']), { key: 'cd', distance: 2 })
+    })
+})
@@ -0,0 +1,64 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import type { ModSourceInfo } from "../context.ts"
+import { getGitHubPermalink, getJsonPointerLines } from "../locations.ts"
+
+const COMMIT_SHA = '957fde5ca78e830f8996afc5c4d87bd791bf5356'
+
+const source: ModSourceInfo = {
+    owner: 'bob',
+    repo: 'moons',
+    branch: 'main',
+    commitSha: COMMIT_SHA,
+    fetchedAt: '2026-01-01T00:00:00.000Z',
+    files: {
+        'planets/Pebble.json': 'NewHorizons/planets/Pebble.json',
+        'planets/Dust Moon.json': 'NewHorizons/planets/Dust Moon.json',
+    },
+}
+
+describe('getGitHubPermalink', () => {
+    it('links to the file at the commit it was fetched from', () => {
+        assert.equal(getGitHubPermalink(source, 'planets/Pebble.json'), `https://github.com/bob/moons/blob/${COMMIT_SHA}/NewHorizons/planets/Pebble.json`)
+    })
+
+    it('links to a line', () => {
+        assert.equal(getGitHubPermalink(source, 'planets/Pebble.json', 4), `https://github.com/bob/moons/blob/${COMMIT_SHA}/NewHorizons/planets/Pebble.json#L4`)
+    })
+
+    it('encodes each path segment', () => {
+        assert.equal(getGitHubPermalink(source, 'planets/Dust Moon.json'), `https://github.com/bob/moons/blob/${COMMIT_SHA}/NewHorizons/planets/Dust%20Moon.json`)
+    })
+
+    it('has no link for files it did not fetch, or without a commit', () => {
+        assert.equal(getGitHubPermalink(source, 'planets/Other.json'), null)
+        const { commitSha, ...localSource } = source
+        assert.equal(getGitHubPermalink(localSource, 'planets/Pebble.json', 4), null)
+    })
+})
+
+describe('getJsonPointerLines', () => {
+    it('attributes members to the line of their key and items to the line they start on', () => {
+        const text = [
+            '{',
+            '    // comment',
+            '    "name": "Pebble",',
+            '    "a/b": {',
+            '        "list": [',
+            '            1,',
+            '            { "x": 2 }',
+            '        ]',
+            '    }',
+            '}',
+        ].join('\n')
+        assert.deepEqual(getJsonPointerLines(text), {
+            '': 1,
+            '/name': 3,
+            '/a~1b': 4,
+            '/a~1b/list': 5,
+            '/a~1b/list/0': 6,
+            '/a~1b/list/1': 7,
+            '/a~1b/list/1/x': 7,
+        })
+    })
+})
@@ -0,0 +1,41 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { getRetryDelay } from "../mod-source.ts"
+
+/** Assert a delay falls within a range, since every delay but the primary rate limit's has random jitter */
+function assertBetween(delay: number | null, min: number, max: number) {
+    assert.ok(delay !== null && delay >= min && delay <= max, `expected a delay between ${min} and ${max}, got ${delay}`)
+}
+
+describe('getRetryDelay', () => {
+    it('backs off exponentially on server errors and dropped connections', () => {
+        assertBetween(getRetryDelay({ status: 502 }, 1), 1000, 2000)
+        assertBetween(getRetryDelay({ status: 500 }, 3), 4000, 8000)
+        assertBetween(getRetryDelay(new TypeError('fetch failed'), 2), 2000, 4000)
+    })
+
+    it('does not retry client errors', () => {
+        assert.equal(getRetryDelay({ status: 404 }, 1), null)
+        assert.equal(getRetryDelay({ status: 403, message: 'Resource not accessible' }, 1), null)
+    })
+
+    it('waits until a primary rate limit resets', () => {
+        const reset = Math.floor(Date.now() / 1000) + 30
+        const error = { status: 403, response: { headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(reset) } } }
+        assertBetween(getRetryDelay(error, 1), 29_000, 32_000)
+    })
+
+    it('waits as long as a secondary rate limit asks', () => {
+        assertBetween(getRetryDelay({ status: 429, response: { headers: { 'retry-after': '5' } } }, 1), 5000, 6000)
+    })
+
+    it('waits at least a minute after a secondary rate limit that does not say how long', () => {
+        assertBetween(getRetryDelay({ status: 403, message: 'You have exceeded a secondary rate limit' }, 2), 120_000, 122_000)
+    })
+
+    it('only reads a status from errors that have one', () => {
+        // Not a request error, so its status is not trusted and it is retried like a dropped connection
+        assertBetween(getRetryDelay({ status: '404' }, 1), 1000, 2000)
+        assertBetween(getRetryDelay(null, 1), 1000, 2000)
+    })
+})
@@ -0,0 +1,3 @@
+import { downloadSchemas } from "./schema.ts"
+
+await downloadSchemas()
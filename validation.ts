@@ -0,0 +1,261 @@
+import { mkdir, writeFile } from "node:fs/promises"
+import { Ajv, type ErrorObject, type ValidateFunction } from "ajv"
+import AjvDraft04 from "ajv-draft-04"
+import { listConfigFiles, type AnalysisContext } from "./context.ts"
+import { recordRunError } from "./crawl-errors.ts"
+import { escapeHtml, getModBadgeHtml, getSourceLocationHtml } from "./html.ts"
+import { escapeJsonPointerToken, getGitHubPermalink } from "./locations.ts"
+import { findSchemaSourceByReference, loadSchema, SCHEMA_SOURCES } from "./schema.ts"
+
+/** Maximum number of issues rendered per rule or mod in the HTML report; the JSON output is complete */
+const MAX_ISSUES_PER_GROUP = 100
+
+export interface ValidationIssue {
+    configType: string
+    modName: string
+    file: string
+    pointer: string // JSON pointer of the offending value, e.g. /Base/surfaceGravity
+    line?: number
+    url?: string
+    keyword: string // JSON schema keyword that failed, e.g. 'type', 'additionalProperties', or '$schema' for a mismatched reference
+    schemaPath: string // location of the failing rule in the schema, e.g. #/definitions/BaseModule/properties/surfaceGravity/type
+    message: string
+}
+
+export interface ValidationRuleSummary {
+    configType: string
+    keyword: string
+    schemaPath: string
+    message: string // message from the first occurrence; messages for the same rule differ only in detail
+    count: number
+    mods: Record<string, number> // Mod UniqueName -> number of issues
+}
+
+export interface ValidationReport {
+    checkedFiles: number
+    invalidFiles: number
+    perMod: Record<string, ValidationIssue[]>
+    perRule: Record<string, ValidationRuleSummary> // '{configType} {schemaPath}' -> summary
+}
+
+/**
+ * Validate every crawled config against the vendored New Horizons and OWML schemas,
+ * writing per-mod and per-rule reports to analysis/validation/
+ */
+export async function validateModConfigs(ctx: AnalysisContext, analysisOutputDir: string): Promise<ValidationReport> {
+    console.log('Validating mod configs against schemas...')
+
+    // A schema that cannot be used leaves validation, field hygiene and schema coverage inert for its type, so it is a
+    // crawl error rather than a note
+    const validators = new Map<string, ValidateFunction>()
+    for (const source of SCHEMA_SOURCES) {
+        const schemaPath = `schemas/${source.fileName}`
+        const skipped = `schema validation, field hygiene and schema coverage skip ${source.configType} configs`
+        const schema = await loadSchema(source.configType)
+        if (!schema) {
+            recordRunError(ctx, 'schema', `Schema is missing or not valid JSON, so ${skipped}; run 'npm run update-schemas' to vendor it`, schemaPath)
+            continue
+        }
+        try {
+            validators.set(source.configType, compileSchema(schema))
+        } catch (e) {
+            recordRunError(ctx, 'schema', `Schema could not be compiled, so ${skipped}: ${e instanceof Error ? e.message : String(e)}`, schemaPath)
+        }
+    }
+
+    const report: ValidationReport = {
+        checkedFiles: 0,
+        invalidFiles: 0,
+        perMod: {},
+        perRule: {},
+    }
+
+    for (const { configType, modName, filePath, data } of listConfigFiles(ctx)) {
+        const validate = validators.get(configType)
+        if (!validate) continue
+
+        const issues: Omit<ValidationIssue, 'line' | 'url'>[] = []
+        if (!validate(data)) {
+            for (const error of validate.errors ?? []) {
+                issues.push({
+                    configType,
+                    modName,
+                    file: filePath,
+                    pointer: getErrorPointer(error),
+                    keyword: error.keyword,
+                    schemaPath: error.schemaPath,
+                    message: getErrorMessage(error),
+                })
+            }
+        }
+
+        // A $schema reference to a different known schema usually means the file is in the wrong place or was copied from another config type
+        if (typeof data.$schema === 'string') {
+            const referenced = findSchemaSourceByReference(data.$schema)
+            if (referenced && referenced.configType !== configType) {
+                issues.push({
+                    configType,
+                    modName,
+                    file: filePath,
+                    pointer: '/$schema',
+                    keyword: '$schema',
+                    schemaPath: '$schema',
+                    message: `references ${referenced.fileName} but is loaded as a ${configType} config`,
+                })
+            }
+        }
+
+        report.checkedFiles++
+        if (issues.length === 0) continue
+        report.invalidFiles++
+
+        for (const issue of issues) {
+            const line = ctx.configLines[modName]?.[filePath]?.[issue.pointer]
+            const source = ctx.modSources[modName]
+            const url = source ? getGitHubPermalink(source, filePath, line) : null
+            const fullIssue: ValidationIssue = { ...issue, ...(line ? { line } : {}), ...(url ? { url } : {}) }
+
+            report.perMod[modName] = report.perMod[modName] || []
+            report.perMod[modName].push(fullIssue)
+
+            const ruleKey = `${configType} ${issue.schemaPath}`
+            if (!report.perRule[ruleKey]) {
+                report.perRule[ruleKey] = {
+                    configType,
+                    keyword: issue.keyword,
+                    schemaPath: issue.schemaPath,
+                    message: issue.message,
+                    count: 0,
+                    mods: {},
+                }
+            }
+            const rule = report.perRule[ruleKey]
+            rule.count++
+            rule.mods[modName] = (rule.mods[modName] ?? 0) + 1
+        }
+    }
+
+    const validationOutputDir = `${analysisOutputDir}/validation`
+    await mkdir(validationOutputDir, { recursive: true })
+    await writeFile(`${validationOutputDir}/per-mod-errors.json`, JSON.stringify(report.perMod, null, 2))
+    await writeFile(`${validationOutputDir}/per-rule-errors.json`, JSON.stringify(report.perRule, null, 2))
+    await writeFile(`${validationOutputDir}/summary.json`, JSON.stringify({
+        checkedFiles: report.checkedFiles,
+        invalidFiles: report.invalidFiles,
+    }, null, 2))
+
+    console.log(`  Checked ${report.checkedFiles} files, ${report.invalidFiles} with schema errors`)
+    return report
+}
+
+/**
+ * Compile a schema with the validator matching its declared draft.
+ * The New Horizons schemas are draft-04, which Ajv only supports through a separate build.
+ */
+function compileSchema(schema: any): ValidateFunction {
+    const { $schema: draft, ...schemaBody } = schema
+    const options = { strict: false, allErrors: true }
+    const ajv = typeof draft === 'string' && draft.includes('draft-04')
+        ? new AjvDraft04.default(options)
+        : new Ajv(options)
+    return ajv.compile(schemaBody)
+}
+
+/**
+ * Get the JSON pointer an error refers to, pointing at the offending key itself for unknown properties
+ */
+function getErrorPointer(error: ErrorObject): string {
+    if (error.keyword === 'additionalProperties') {
+        const property = escapeJsonPointerToken(String(error.params.additionalProperty))
+        return `${error.instancePath}/${property}`
+    }
+    return error.instancePath
+}
+
+/**
+ * Get a readable message for an error, including the allowed values for enums
+ */
+function getErrorMessage(error: ErrorObject): string {
+    const message = error.message ?? error.keyword
+    if (error.keyword === 'enum' && Array.isArray(error.params.allowedValues)) {
+        return `${message}: ${error.params.allowedValues.map(v => JSON.stringify(v)).join(', ')}`
+    }
+    if (error.keyword === 'additionalProperties') {
+        return `${message}: ${error.params.additionalProperty}`
+    }
+    return message
+}
+
+/**
+ * Render the validation report as a collapsible section of the HTML report
+ */
+export function getValidationReportHtml(report: ValidationReport): string {
+    const issueCount = Object.values(report.perRule).reduce((sum, rule) => sum + rule.count, 0)
+    const issuesByRule: Record<string, ValidationIssue[]> = {}
+    for (const issues of Object.values(report.perMod)) {
+        for (const issue of issues) {
+            const ruleKey = `${issue.configType} ${issue.schemaPath}`
+            issuesByRule[ruleKey] = issuesByRule[ruleKey] || []
+            issuesByRule[ruleKey].push(issue)
+        }
+    }
+
+    const rulesHtml = Object.entries(report.perRule)
+        .sort(([, a], [, b]) => b.count - a.count)
+        .map(([ruleKey, rule]) => getIssueGroupHtml(
+            `${rule.configType} ${rule.schemaPath}`,
+            rule.keyword,
+            Object.keys(rule.mods).length,
+            issuesByRule[ruleKey] || []
+        ))
+        .join('')
+
+    const modsHtml = Object.entries(report.perMod)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([modName, issues]) => getIssueGroupHtml(modName, `${issues.length} issues`, 1, issues))
+        .join('')
+
+    return `
+        <div class="config-type">
+            <div class="config-type-header collapsed">
+                <span class="toggle-icon">▼</span>
+                <span>Schema Validation</span>
+                <span style="margin-left: auto; font-size: 0.85em; font-weight: normal; color: #999;">${issueCount} issues in ${report.invalidFiles} of ${report.checkedFiles} files</span>
+            </div>
+            <div class="config-type-content collapsed">
+                <h3 class="section-subheader">By rule</h3>
+                ${rulesHtml || '<p class="section-note">No issues found.</p>'}
+                <h3 class="section-subheader">By mod</h3>
+                ${modsHtml || '<p class="section-note">No issues found.</p>'}
+            </div>
+        </div>
+    `
+}
+
+/**
+ * Render a collapsible group of validation issues
+ */
+function getIssueGroupHtml(title: string, label: string, modCount: number, issues: ValidationIssue[]): string {
+    const shownIssues = issues.slice(0, MAX_ISSUES_PER_GROUP)
+    const hiddenCount = issues.length - shownIssues.length
+    return `
+        <div class="field">
+            <div class="field-header collapsed">
+                <span class="field-toggle">▼</span>
+                <span class="field-name">${escapeHtml(title)}</span>
+                <span class="field-type">${escapeHtml(label)}</span>
+                <span style="margin-left: auto; font-size: 0.85em; font-weight: normal; color: #999;">${issues.length} issue${issues.length !== 1 ? 's' : ''}, ${modCount} mod${modCount !== 1 ? 's' : ''}</span>
+            </div>
+            <div class="field-values collapsed">
+                ${shownIssues.map(issue => `
+                    <div class="issue-item">
+                        ${getModBadgeHtml(issue.modName, issue.url)}
+                        <span class="issue-message">${escapeHtml(issue.message)}</span>
+                        ${getSourceLocationHtml(issue)}
+                    </div>
+                `).join('')}
+                ${hiddenCount > 0 ? `<p class="section-note">…and ${hiddenCount} more</p>` : ''}
+            </div>
+        </div>
+    `
+}
@@ -0,0 +1,213 @@
+import { escapeJsonPointerToken, getLineStarts, lineAt } from "./locations.ts"
+
+/** A parsed XML element with the line it starts on */
+export interface XmlElement {
+    name: string
+    attributes: { name: string, value: string, line: number }[]
+    children: XmlElement[]
+    text: string // text and CDATA directly inside the element, with entities decoded
+    line: number
+}
+
+/**
+ * Parse an XML document into its root element.
+ * Errors carry a 1-based lineNumber and columnNumber, like JSON5's, so they can be reported the same way.
+ */
+export function parseXml(text: string): XmlElement {
+    const lineStarts = getLineStarts(text)
+    let pos = 0
+
+    const fail = (message: string, offset: number = pos): never => {
+        const lineNumber = lineAt(lineStarts, offset)
+        const columnNumber = offset - lineStarts[lineNumber - 1] + 1
+        throw Object.assign(new SyntaxError(`XML: ${message} at ${lineNumber}:${columnNumber}`), { lineNumber, columnNumber })
+    }
+
+    const skipPast = (terminator: string, what: string) => {
+        const end = text.indexOf(terminator, pos)
+        if (end === -1) {
+            fail(`unterminated ${what}`)
+        }
+        pos = end + terminator.length
+    }
+
+    // Comments, processing instructions like <?xml ...?> and doctypes carry nothing we analyze
+    const skipMisc = () => {
+        while (pos < text.length) {
+            if (/\s/.test(text[pos])) {
+                pos++
+            } else if (text.startsWith('<!--', pos)) {
+                skipPast('-->', 'comment')
+            } else if (text.startsWith('<?', pos)) {
+                skipPast('?>', 'processing instruction')
+            } else if (text.startsWith('<!DOCTYPE', pos)) {
+                skipPast('>', 'doctype')
+            } else {
+                break
+            }
+        }
+    }
+
+    const readName = (): string => {
+        const match = /^[^\s<>\/=!?"']+/.exec(text.substring(pos, pos + 256))
+        if (!match) {
+            fail(pos < text.length ? `invalid character '${text[pos]}'` : 'invalid end of input')
+        }
+        pos += match![0].length
+        return match![0]
+    }
+
+    const skipWhitespace = () => {
+        while (pos < text.length && /\s/.test(text[pos])) {
+            pos++
+        }
+    }
+
+    const parseElement = (): XmlElement => {
+        if (text[pos] !== '<') {
+            fail(pos < text.length ? `invalid character '${text[pos]}'` : 'invalid end of input')
+        }
+        const element: XmlElement = { name: '', attributes: [], children: [], text: '', line: lineAt(lineStarts, pos) }
+        pos++
+        element.name = readName()
+
+        while (true) {
+            skipWhitespace()
+            if (text.startsWith('/>', pos)) {
+                pos += 2
+                return element
+            }
+            if (text[pos] === '>') {
+                pos++
+                break
+            }
+            const line = lineAt(lineStarts, pos)
+            const name = readName()
+            skipWhitespace()
+            if (text[pos] !== '=') {
+                fail(`expected '=' after attribute ${name}`)
+            }
+            pos++
+            skipWhitespace()
+            const quote = text[pos]
+            if (quote !== '"' && quote !== "'") {
+                fail(`expected a quoted value for attribute ${name}`)
+            }
+            const end = text.indexOf(quote, pos + 1)
+            if (end === -1) {
+                fail(`unterminated value for attribute ${name}`)
+            }
+            element.attributes.push({ name, value: decodeEntities(text.substring(pos + 1, end)), line })
+            pos = end + 1
+        }
+
+        while (true) {
+            if (pos >= text.length) {
+                fail(`unclosed element <${element.name}>`)
+            }
+            if (text.startsWith('</', pos)) {
+                const closeStart = pos
+                pos += 2
+                const name = readName()
+                if (name !== element.name) {
+                    fail(`closing tag </${name}> does not match <${element.name}> on line ${element.line}`, closeStart)
+                }
+                skipWhitespace()
+                if (text[pos] !== '>') {
+                    fail(`expected '>'`)
+                }
+                pos++
+                return element
+            }
+            if (text.startsWith('<![CDATA[', pos)) {
+                const start = pos + '<![CDATA['.length
+                skipPast(']]>', 'CDATA section')
+                element.text += text.substring(start, pos - ']]>'.length)
+            } else if (text.startsWith('<!--', pos) || text.startsWith('<?', pos)) {
+                skipMisc()
+            } else if (text[pos] === '<') {
+                element.children.push(parseElement())
+            } else {
+                const end = text.indexOf('<', pos)
+                element.text += decodeEntities(text.substring(pos, end === -1 ? text.length : end))
+                pos = end === -1 ? text.length : end
+            }
+        }
+    }
+
+    skipMisc()
+    const root = parseElement()
+    skipMisc()
+    if (pos < text.length) {
+        fail(`invalid character '${text[pos]}' after the root element`)
+    }
+    return root
+}
+
+/**
+ * Convert an XML element into a JSON-like field tree, so element and attribute usage can be analyzed like JSON configs.
+ * Attributes become '@name' fields, and text next to child elements or attributes becomes a '#text' field.
+ * An element with only text becomes a string. Child elements always become an array, even when one appears only once,
+ * so every file gives the same field paths for the same elements.
+ * Also returns the line of every JSON pointer in the tree.
+ */
+export function getXmlFieldTree(root: XmlElement): { data: any, lines: Record<string, number> } {
+    const lines: Record<string, number> = {}
+
+    const convert = (element: XmlElement, pointer: string): any => {
+        lines[pointer] = element.line
+        const text = element.text.trim()
+        if (element.children.length === 0 && element.attributes.length === 0) {
+            return text
+        }
+        const node: Record<string, any> = {}
+        for (const attribute of element.attributes) {
+            node[`@${attribute.name}`] = attribute.value
+            lines[`${pointer}/${escapeJsonPointerToken(`@${attribute.name}`)}`] = attribute.line
+        }
+        if (text) {
+            node['#text'] = text
+            lines[`${pointer}/#text`] = element.line
+        }
+        const childrenByName = new Map<string, XmlElement[]>()
+        for (const child of element.children) {
+            if (!childrenByName.has(child.name)) {
+                childrenByName.set(child.name, [])
+            }
+            childrenByName.get(child.name)!.push(child)
+        }
+        for (const [name, children] of childrenByName) {
+            const childPointer = `${pointer}/${escapeJsonPointerToken(name)}`
+            lines[childPointer] = children[0].line
+            node[name] = children.map((child, index) => convert(child, `${childPointer}/${index}`))
+        }
+        return node
+    }
+
+    return { data: convert(root, ''), lines }
+}
+
+/**
+ * Map every JSON pointer in an XML document's field tree to the 1-based line it starts on, or nothing if it does not parse
+ */
+export function getXmlPointerLines(text: string): Record<string, number> {
+    try {
+        return getXmlFieldTree(parseXml(text)).lines
+    } catch {
+        return {}
+    }
+}
+
+/**
+ * Decode the predefined XML entities and character references
+ */
+function decodeEntities(text: string): string {
+    const entities: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }
+    return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10)
+            return String.fromCodePoint(code)
+        }
+        return entities[entity] ?? match
+    })
+}